@@ -1,13 +1,35 @@
-import React, { useState, useRef, useEffect, useCallback } from 'react';
+import React, { useState, useRef, useEffect, useCallback, useMemo } from 'react';
 import { Sidebar } from './components/Sidebar';
+import { SettingsPanel } from './components/SettingsPanel';
+import { PersonaManager } from './components/PersonaManager';
+import { SchemaManager } from './components/SchemaManager';
+import { PersonaIcon } from './components/PersonaIcon';
+import { ContextMeter } from './components/ContextMeter';
+import { UsagePanel } from './components/UsagePanel';
+import { ImageOptionsMenu } from './components/ImageOptionsMenu';
+import { ToolsMenu } from './components/ToolsMenu';
+import { ThinkingMenu } from './components/ThinkingMenu';
+import { StructuredOutputMenu } from './components/StructuredOutputMenu';
 import { ChatMessage } from './components/ChatMessage';
-import { ChatInput } from './components/ChatInput';
-import { Message, Role, ChatSession, AIModel } from './types';
-import { getGeminiChat, sendMessageStream, AVAILABLE_MODELS } from './services/geminiService';
-import { Menu, Plus, Sparkles, Code, PenTool, Lightbulb, ChevronDown, Zap, BrainCircuit, Image as ImageIcon } from 'lucide-react';
-import { Chat } from '@google/genai';
-
-const STORAGE_KEY = 'gemini-chat-history';
+import { ChatInput, ChatInputHandle } from './components/ChatInput';
+import { Message, Role, ChatSession, AIModel, AppSettings, Persona, TokenUsage, Attachment, ImageEditSource, ToolCall, WebSearchMode, ThinkingLevel, ResponseSchema } from './types';
+import { generateChatTitle, hasApiKey, transcribeAudio, BACKGROUND_MODEL_ID } from './services/geminiService';
+import { PROVIDERS, ProviderChat, configureProviders, getAvailableModels, createChat } from './services/providers';
+import { loadSessions, loadSessionMessages, loadAllMessages, saveSession, deleteSession, clearAllData, isQuotaError } from './services/storageService';
+import { loadSettings, saveSettings } from './services/settingsService';
+import { BUILT_IN_PERSONAS, DEFAULT_PERSONA_ID, loadCustomPersonas, saveCustomPersonas } from './services/personaService';
+import { BUILT_IN_SCHEMAS, loadCustomSchemas, saveCustomSchemas, parseSchema } from './services/schemaService';
+import { downloadExport, parseImportFile, ExportFormat } from './services/exportService';
+import { classifyError, getRetryDelay, wait, MAX_RETRIES } from './services/chatErrors';
+import { logUsage, clearUsageLog, addTokenUsage, estimateCost, getModelPricing } from './services/usageService';
+import { SUMMARY_THRESHOLD, getContextWindow, countHistoryTokens, getHistoryKey, getActiveSummary, getMessagesToSummarize, summarizeMessages } from './services/contextService';
+import { getThread, getSiblings, getLatestLeaf } from './utils/messageTree';
+import { createSearchIndex, SearchResult } from './utils/searchIndex';
+import { buildHistory, getImageKey, isSameImageContext, ImageContextStatus } from './utils/historyBuilder';
+import { toAttachment } from './utils/attachments';
+import { getImageDataUrl, getImageVersions } from './utils/imageEdits';
+import { validateJsonAnswer } from './utils/jsonSchema';
+import { Menu, Plus, Sparkles, Code, PenTool, Lightbulb, ChevronDown, Zap, BrainCircuit, Image as ImageIcon, AlertTriangle, X, SlidersHorizontal, Wand2, Upload } from 'lucide-react';
 
 // Suggestions for empty state
 const SUGGESTIONS = [
@@ -17,18 +39,91 @@ const SUGGESTIONS = [
   { icon: <Sparkles size={20} />, label: "Curiosidade", prompt: "Explique a teoria da relatividade como se eu tivesse 5 anos." },
 ];
 
+// Settings are read once at startup so the providers are ready before the first render
+const initialSettings = loadSettings();
+configureProviders(initialSettings);
+const initialModels = getAvailableModels(initialSettings);
+
 const App: React.FC = () => {
+  const [settings, setSettings] = useState<AppSettings>(initialSettings);
+  const [isSettingsOpen, setIsSettingsOpen] = useState(!initialSettings.apiKey && !initialSettings.openAIBaseUrl);
   const [sessions, setSessions] = useState<ChatSession[]>([]);
   const [currentSessionId, setCurrentSessionId] = useState<string | null>(null);
-  const [messages, setMessages] = useState<Message[]>([]);
+  const [messages, setMessages] = useState<Message[]>([]); // All branches of the current session
+  const [activeLeafId, setActiveLeafId] = useState<string | null>(null);
   const [isLoading, setIsLoading] = useState(false);
   const [isSidebarOpen, setIsSidebarOpen] = useState(false);
-  const [selectedModelId, setSelectedModelId] = useState<string>(AVAILABLE_MODELS[0].id);
+  const [selectedModelId, setSelectedModelId] = useState<string>(
+    initialModels.some(m => m.id === initialSettings.defaultModelId) ? initialSettings.defaultModelId : initialModels[0].id
+  );
   const [isModelMenuOpen, setIsModelMenuOpen] = useState(false);
+  const [customPersonas, setCustomPersonas] = useState<Persona[]>(loadCustomPersonas);
+  const [selectedPersonaId, setSelectedPersonaId] = useState<string>(DEFAULT_PERSONA_ID);
+  // Local tools offered to the model; saved with each conversation and kept for new ones
+  const [enabledTools, setEnabledTools] = useState<string[]>([]);
+  // Thinking level, also per conversation; models that don't offer it keep their default
+  const [thinkingLevel, setThinkingLevel] = useState<ThinkingLevel>('auto');
+  const [isPersonaManagerOpen, setIsPersonaManagerOpen] = useState(false);
+  const [customSchemas, setCustomSchemas] = useState<ResponseSchema[]>(loadCustomSchemas);
+  // Schema for structured answers in this conversation (null for free-form text)
+  const [responseSchema, setResponseSchema] = useState<ResponseSchema | null>(null);
+  const [isSchemaManagerOpen, setIsSchemaManagerOpen] = useState(false);
+  const [isUsagePanelOpen, setIsUsagePanelOpen] = useState(false);
+  const [errorNotice, setErrorNotice] = useState<string | null>(null);
+  const [highlightedMessageId, setHighlightedMessageId] = useState<string | null>(null);
+  const [searchIndex] = useState(createSearchIndex);
+  // What happened to each image of the current branch when the history was rebuilt
+  const [imageContext, setImageContext] = useState<Record<string, ImageContextStatus>>({});
+  // Token count of the history sent for a given branch leaf
+  const [contextUsage, setContextUsage] = useState<{ leafId: string | null, tokens: number } | null>(null);
+  const [isSummarizing, setIsSummarizing] = useState(false);
+  const [isContextPanelOpen, setIsContextPanelOpen] = useState(false);
+  const [isDraggingFiles, setIsDraggingFiles] = useState(false);
   
   const messagesEndRef = useRef<HTMLDivElement>(null);
-  const chatInstanceRef = useRef<Chat | null>(null);
+  const chatInputRef = useRef<ChatInputHandle>(null);
+  // Chat for the selected branch; a promise, since rebuilding the history is asynchronous
+  const chatInstanceRef = useRef<Promise<ProviderChat | null> | null>(null);
   const modelMenuRef = useRef<HTMLDivElement>(null);
+  const abortControllerRef = useRef<AbortController | null>(null);
+  // Set from the click until the answer ends, since isLoading is only set after the chat is ready
+  const isSendingRef = useRef(false);
+  // Last counted history, so option or persona changes that don't touch the history aren't counted again
+  const countedHistoryRef = useRef<{ key: string, tokens: number } | null>(null);
+  // Last persisted version of each session, used to only save what changed
+  const savedSessionsRef = useRef(new Map<string, ChatSession>());
+
+  const personas = useMemo(() => [...BUILT_IN_PERSONAS, ...customPersonas], [customPersonas]);
+  const activePersona = personas.find(p => p.id === selectedPersonaId) ?? BUILT_IN_PERSONAS[0];
+
+  // Only the settings that list models, so the selected model (and its chat) survive unrelated changes
+  const availableModels = useMemo(
+    () => getAvailableModels(settings),
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+    [settings.openAIBaseUrl, settings.openAIModels, settings.enableMockProvider]
+  );
+  const currentModel = availableModels.find(m => m.id === selectedModelId) || availableModels[0];
+  const imageBudgetBytes = settings.contextImageBudgetMB * 1024 * 1024;
+  // Structured answers need a text model from a provider that accepts a schema
+  const supportsStructuredOutput = currentModel.provider !== 'mock' && !currentModel.id.includes('image');
+  const parsedResponseSchema = useMemo(() => {
+    if (!responseSchema || !supportsStructuredOutput) return undefined;
+    try {
+      return parseSchema(responseSchema.schema);
+    } catch {
+      return undefined;
+    }
+  }, [responseSchema, supportsStructuredOutput]);
+
+  const generationOptions = useMemo(() => (
+    { imageGeneration: settings.imageGeneration, tools: enabledTools, thinking: thinkingLevel, responseSchema: parsedResponseSchema }
+  ), [settings.imageGeneration, enabledTools, thinkingLevel, parsedResponseSchema]);
+
+  // Messages of the currently selected branch, from the first prompt to the leaf
+  const thread = useMemo(() => getThread(messages, activeLeafId), [messages, activeLeafId]);
+
+  const currentSession = sessions.find(s => s.id === currentSessionId);
+  const contextSummary = getActiveSummary(thread, currentSession?.contextSummary);
 
   // Close model menu on click outside
   useEffect(() => {
@@ -41,39 +136,47 @@ const App: React.FC = () => {
     return () => document.removeEventListener('mousedown', handleClickOutside);
   }, []);
 
-  // Load history from local storage on mount
+  const handleStorageError = useCallback((error: unknown) => {
+    console.error("Chat storage error", error);
+    setErrorNotice(isQuotaError(error)
+      ? "O armazenamento do navegador está cheio. Exclua conversas antigas para continuar salvando seu histórico."
+      : "Não foi possível acessar o armazenamento local. Suas conversas podem não ser salvas.");
+  }, []);
+
+  // Load session list from storage on mount (messages are loaded when a session is opened)
   useEffect(() => {
-    const saved = localStorage.getItem(STORAGE_KEY);
-    if (saved) {
-      try {
-        const parsedSessions: ChatSession[] = JSON.parse(saved);
-        // Rehydrate Dates
-        const hydratedSessions = parsedSessions.map(session => ({
-          ...session,
-          messages: session.messages.map(m => ({
-            ...m,
-            timestamp: new Date(m.timestamp)
-          }))
-        }));
-        // Sort by newest first
-        hydratedSessions.sort((a, b) => b.createdAt - a.createdAt);
-        setSessions(hydratedSessions);
-      } catch (e) {
-        console.error("Failed to parse chat history", e);
-      }
-    }
+    loadSessions()
+      .then(loadedSessions => {
+        loadedSessions.forEach(session => savedSessionsRef.current.set(session.id, session));
+        setSessions(prev => [...prev, ...loadedSessions.filter(l => !prev.some(p => p.id === l.id))]);
+      })
+      .catch(handleStorageError);
+
+    // Index stored messages of every session for search
+    loadAllMessages()
+      .then(stored => stored.forEach(({ sessionId, message }) => searchIndex.addMessage(sessionId, message)))
+      .catch(handleStorageError);
     
     // Initialize a blank chat
     startNewChat();
     // eslint-disable-next-line react-hooks/exhaustive-deps
   }, []);
 
-  // Save sessions to local storage whenever they change
+  // Persist sessions whenever they change
   useEffect(() => {
-    if (sessions.length > 0) {
-      localStorage.setItem(STORAGE_KEY, JSON.stringify(sessions));
+    sessions.forEach(session => {
+      if (savedSessionsRef.current.get(session.id) === session) return;
+      savedSessionsRef.current.set(session.id, session);
+      saveSession(session).catch(handleStorageError);
+    });
+  }, [sessions, handleStorageError]);
+
+  // Keep the search index up to date with the open session
+  useEffect(() => {
+    if (currentSessionId) {
+      messages.forEach(m => searchIndex.addMessage(currentSessionId, m));
     }
-  }, [sessions]);
+  }, [messages, currentSessionId, searchIndex]);
 
   // Sync current messages to the active session
   useEffect(() => {
@@ -82,18 +185,22 @@ const App: React.FC = () => {
         if (session.id === currentSessionId) {
           // Update title if it's the first user message being finalized
           let title = session.title;
-          if (title === 'Nova Conversa' && messages.length > 0) {
+          if (title === 'Nova Conversa' && !session.isTitleEdited && messages.length > 0) {
             const firstUserMsg = messages.find(m => m.role === Role.User);
             if (firstUserMsg) {
-              title = firstUserMsg.content.slice(0, 30) + (firstUserMsg.content.length > 30 ? '...' : '');
+              // Temporary title until the generated one arrives
+              title = firstUserMsg.content
+                ? firstUserMsg.content.slice(0, 30) + (firstUserMsg.content.length > 30 ? '...' : '')
+                : 'Conversa com imagem';
             }
           }
-          return { ...session, messages, title };
+          const updatedAt = messages[messages.length - 1].timestamp.getTime();
+          return { ...session, messages, activeLeafId, title, updatedAt };
         }
         return session;
       }));
     }
-  }, [messages, currentSessionId]);
+  }, [messages, activeLeafId, currentSessionId]);
 
   const scrollToBottom = () => {
     messagesEndRef.current?.scrollIntoView({ behavior: 'smooth' });
@@ -103,178 +210,572 @@ const App: React.FC = () => {
     scrollToBottom();
   }, [messages, isLoading]);
 
-  // Re-initialize chat when model changes
+  // Scroll to a message opened from search and briefly highlight it
   useEffect(() => {
-    // Only text history is rebuilt here currently. 
-    // Ideally, for multimodal history, we would need to store attachments in history too.
-    const history = messages
-      .filter(m => !m.isError)
-      .map(m => {
-        // Simple reconstruction for history
-        // Note: Re-uploading images in history on refresh/model switch is complex with Gemini API 
-        // as standard `history` object takes Parts.
-        // For now we just pass text to maintain context, as re-sending base64 in history is heavy.
-        return {
-          role: m.role,
-          parts: [{ text: m.content }]
-        };
-      });
-    
-    chatInstanceRef.current = getGeminiChat(selectedModelId, history);
-  }, [selectedModelId, messages]);
+    if (!highlightedMessageId) return;
+    document.getElementById(`message-${highlightedMessageId}`)?.scrollIntoView({ behavior: 'smooth', block: 'center' });
+    const timer = setTimeout(() => setHighlightedMessageId(null), 3000);
+    return () => clearTimeout(timer);
+  }, [highlightedMessageId]);
+
+  // Re-initialize chat when the model, branch, summary, credentials or generation options change.
+  // The pending chat is stored right away, so a message sent meanwhile waits for it instead of using the previous one
+  useEffect(() => {
+    let isCancelled = false;
+    const isStreaming = thread.some(m => m.isStreaming);
+    const leafId = thread[thread.length - 1]?.id ?? null;
+
+    const built = buildHistory(thread, imageBudgetBytes, contextSummary);
+    chatInstanceRef.current = built.then(
+      ({ history }) => createChat(currentModel, history, activePersona, generationOptions),
+      () => null
+    );
+
+    built.then(async ({ history, imageContext: context }) => {
+      if (isCancelled) return;
+      setImageContext(prev => (isSameImageContext(prev, context) ? prev : context));
+
+      // Count once the answer is complete rather than on every streamed chunk
+      if (isStreaming) return;
+      const key = getHistoryKey(currentModel, history);
+      const counted = countedHistoryRef.current;
+      const tokens = counted?.key === key ? counted.tokens : await countHistoryTokens(currentModel, history);
+      countedHistoryRef.current = { key, tokens };
+      if (!isCancelled) setContextUsage(prev => (prev?.leafId === leafId && prev.tokens === tokens ? prev : { leafId, tokens }));
+    }).catch(error => console.error("Failed to rebuild the chat history", error));
+    return () => { isCancelled = true; };
+  }, [currentModel, thread, activePersona, imageBudgetBytes, contextSummary, generationOptions, settings.apiKey]);
+
+  // Summarize older turns automatically when the history gets close to the model's limit
+  useEffect(() => {
+    if (!contextUsage || contextUsage.leafId !== activeLeafId || isLoading) return;
+    if (contextUsage.tokens >= getContextWindow(currentModel) * SUMMARY_THRESHOLD) {
+      handleSummarizeContext();
+    }
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [contextUsage]);
 
   const startNewChat = useCallback(() => {
-    chatInstanceRef.current = getGeminiChat(selectedModelId);
+    chatInstanceRef.current = Promise.resolve(createChat(currentModel, [], activePersona, generationOptions));
     setMessages([]);
+    setActiveLeafId(null);
     setCurrentSessionId(null);
     setIsSidebarOpen(false);
-  }, [selectedModelId]);
+  }, [currentModel, activePersona, generationOptions]);
 
-  const handleSelectSession = (session: ChatSession) => {
+  // Opens a session, optionally switching to the branch containing a given message
+  const openSession = async (session: ChatSession, focusMessageId?: string) => {
     if (isLoading) return; // Prevent switching while generating
 
+    let sessionMessages = session.messages;
+    if (sessionMessages.length === 0) {
+      try {
+        sessionMessages = await loadSessionMessages(session.id);
+      } catch (error) {
+        handleStorageError(error);
+        return;
+      }
+    }
+
+    let leafId = session.activeLeafId ?? null;
+    if (focusMessageId && !getThread(sessionMessages, leafId).some(m => m.id === focusMessageId)) {
+      leafId = getLatestLeaf(sessionMessages, focusMessageId);
+    }
+
     setCurrentSessionId(session.id);
-    setMessages(session.messages);
+    setMessages(sessionMessages);
+    setActiveLeafId(leafId);
+    setSelectedPersonaId(session.personaId ?? DEFAULT_PERSONA_ID);
+    setEnabledTools(session.enabledTools ?? []);
+    setThinkingLevel(session.thinking ?? 'auto');
+    setResponseSchema(session.responseSchema ?? null);
+    setHighlightedMessageId(focusMessageId ?? null);
     setIsSidebarOpen(false);
     
-    // Instance is updated by the useEffect dependent on 'messages'
+    // Instance is updated by the useEffect dependent on 'thread'
+  };
+
+  const handleSelectSession = (session: ChatSession) => openSession(session);
+
+  const handleOpenSearchResult = (result: SearchResult) => {
+    const session = sessions.find(s => s.id === result.sessionId);
+    if (session) {
+      openSession(session, result.messageId);
+    }
   };
 
   const handleDeleteSession = (e: React.MouseEvent, sessionId: string) => {
     e.stopPropagation();
     
-    const newSessions = sessions.filter(s => s.id !== sessionId);
-    setSessions(newSessions);
-    localStorage.setItem(STORAGE_KEY, JSON.stringify(newSessions));
+    setSessions(prev => prev.filter(s => s.id !== sessionId));
+    savedSessionsRef.current.delete(sessionId);
+    searchIndex.removeSession(sessionId);
+    deleteSession(sessionId).catch(handleStorageError);
 
     if (currentSessionId === sessionId) {
       startNewChat();
     }
   };
 
-  const handleSendMessage = async (content: string, attachments: string[] = []) => {
-    if ((!content.trim() && attachments.length === 0) || isLoading) return;
+  const handleSaveSettings = (newSettings: AppSettings) => {
+    saveSettings(newSettings);
+    configureProviders(newSettings);
+    // The chat is rebuilt with the new client by the effect that depends on the settings
+    setSettings(newSettings);
+  };
 
-    // 1. Initialize session if new
-    let activeSessionId = currentSessionId;
-    if (!activeSessionId) {
-      activeSessionId = Date.now().toString();
-      const newSession: ChatSession = {
-        id: activeSessionId,
-        title: 'Nova Conversa',
-        messages: [],
-        createdAt: Date.now()
-      };
-      setSessions(prev => [newSession, ...prev]);
-      setCurrentSessionId(activeSessionId);
-      
-      // Ensure chat instance is ready
-      if (!chatInstanceRef.current) {
-        chatInstanceRef.current = getGeminiChat(selectedModelId);
-      }
+  const handleClearData = async () => {
+    try {
+      await clearAllData();
+      // The usage log refers to the deleted conversations; settings and API keys are kept
+      clearUsageLog();
+      setSessions([]);
+      savedSessionsRef.current.clear();
+      searchIndex.clear();
+      startNewChat();
+    } catch (error) {
+      handleStorageError(error);
     }
+  };
 
-    if (!chatInstanceRef.current) return;
+  const handleSelectPersona = (persona: Persona) => {
+    setSelectedPersonaId(persona.id);
+    if (persona.defaultModelId && availableModels.some(m => m.id === persona.defaultModelId)) {
+      setSelectedModelId(persona.defaultModelId);
+    }
+  };
 
-    // 2. Add User Message
-    const userMsg: Message = {
-      id: Date.now().toString(),
-      role: Role.User,
-      content: content.trim(),
-      attachments: attachments, // Store user attachments
+  const handleChangeTools = (tools: string[]) => {
+    setEnabledTools(tools);
+    if (currentSessionId) handleUpdateSession(currentSessionId, { enabledTools: tools });
+  };
+
+  const handleChangeThinking = (level: ThinkingLevel) => {
+    setThinkingLevel(level);
+    if (currentSessionId) handleUpdateSession(currentSessionId, { thinking: level });
+  };
+
+  const handleChangeResponseSchema = (schema: ResponseSchema | null) => {
+    setResponseSchema(schema);
+    if (currentSessionId) handleUpdateSession(currentSessionId, { responseSchema: schema ?? undefined });
+  };
+
+  // Edits to the schema in use apply to the next answers; conversations keep a copy of theirs
+  const handleSaveSchemas = (updated: ResponseSchema[]) => {
+    saveCustomSchemas(updated);
+    setCustomSchemas(updated);
+    const edited = updated.find(s => s.id === responseSchema?.id);
+    if (edited) handleChangeResponseSchema(edited);
+  };
+
+  const handleSavePersonas = (updated: Persona[]) => {
+    saveCustomPersonas(updated);
+    setCustomPersonas(updated);
+  };
+
+  const handleUpdateSession = (sessionId: string, changes: Partial<ChatSession>) => {
+    setSessions(prev => prev.map(s => (s.id === sessionId ? { ...s, ...changes } : s)));
+  };
+
+  // Folds the older turns of the current branch into the session's context summary
+  const handleSummarizeContext = async () => {
+    if (!currentSessionId || isSummarizing) return;
+    const pending = getMessagesToSummarize(thread, currentSession?.contextSummary);
+    if (!pending) return;
+
+    const sessionId = currentSessionId;
+    setIsSummarizing(true);
+    try {
+      const content = await summarizeMessages(currentModel, pending.messages, pending.previousSummary);
+      handleUpdateSession(sessionId, {
+        contextSummary: { content, upToMessageId: pending.messages[pending.messages.length - 1].id }
+      });
+    } catch (error) {
+      console.error("Failed to summarize conversation", error);
+      setErrorNotice("Não foi possível resumir as mensagens antigas. A conversa continua sendo enviada completa.");
+    } finally {
+      setIsSummarizing(false);
+    }
+  };
+
+  const handleExportSessions = async (sessionIds: string[] | null, format: ExportFormat) => {
+    const selected = sessionIds ? sessions.filter(s => sessionIds.includes(s.id)) : sessions;
+
+    try {
+      // Sessions that were never opened only have their metadata in memory
+      const fullSessions = await Promise.all(selected.map(async session => (
+        session.messages.length > 0 ? session : { ...session, messages: await loadSessionMessages(session.id) }
+      )));
+      downloadExport(fullSessions, format);
+    } catch (error) {
+      handleStorageError(error);
+    }
+  };
+
+  const handleImportSessions = async (file: File) => {
+    try {
+      const imported = parseImportFile(await file.text());
+      imported.forEach(session => session.messages.forEach(m => searchIndex.addMessage(session.id, m)));
+      setSessions(prev => [...prev, ...imported].sort((a, b) => b.createdAt - a.createdAt));
+    } catch (error) {
+      console.error("Failed to import conversations", error);
+      setErrorNotice(error instanceof Error ? error.message : "Não foi possível importar o arquivo.");
+    }
+  };
+
+  // Adds an answer's token usage to its session and to the daily usage log
+  const recordUsage = (sessionId: string, modelId: string, usage: TokenUsage) => {
+    logUsage(sessionId, modelId, usage);
+    setSessions(prev => prev.map(s => (
+      s.id === sessionId ? { ...s, usage: { ...s.usage, [modelId]: addTokenUsage(s.usage?.[modelId], usage) } } : s
+    )));
+  };
+
+  // A new chat holding the history of the branch that ends at the given message
+  const createBranchChat = async (leafId: string | null | undefined) => {
+    const previousThread = getThread(messages, leafId);
+    const { history } = await buildHistory(previousThread, imageBudgetBytes, getActiveSummary(previousThread, currentSession?.contextSummary));
+    return createChat(currentModel, history, activePersona, generationOptions);
+  };
+
+  // Streams a model answer into a new branch below the given user message,
+  // or into an existing failed answer when retrying it.
+  // Resolves with the completed answer, or null if it failed or was stopped.
+  const streamModelResponse = async (initialChat: ProviderChat, userMsg: Message, sessionId: string, retryMessageId?: string): Promise<Pick<Message, 'content' | 'images'> | null> => {
+    setIsLoading(true);
+    let fullText = '';
+    let images: string[] = [];
+    let usage: TokenUsage | undefined;
+    let toolCalls: ToolCall[] = [];
+    let thoughts = '';
+    // Thinking time runs from the first thought to the first part of the answer
+    let thinkingStartedAt: number | null = null;
+    let thinkingDurationMs: number | undefined;
+    const modelId = currentModel.id;
+    const structured = responseSchema && parsedResponseSchema ? { name: responseSchema.name, schema: parsedResponseSchema } : null;
+
+    const abortController = new AbortController();
+    abortControllerRef.current = abortController;
+    const modelMsgId = retryMessageId ?? (Date.now() + 1).toString();
+
+    // A stopped answer is cut off, so it isn't checked against the schema
+    const getStructuredOutput = () => structured
+      ? { schemaName: structured.name, errors: abortController.signal.aborted ? [] : validateJsonAnswer(fullText, structured.schema) }
+      : undefined;
+
+    const updateModelMessage = (update: Partial<Message>) => {
+      setMessages((prev) => prev.map((m) => (m.id === modelMsgId ? { ...m, ...update } : m)));
+    };
+
+    // 1. Add placeholder Model Message
+    const modelMsg: Message = {
+      id: modelMsgId,
+      parentId: userMsg.id,
+      role: Role.Model,
+      content: '',
       timestamp: new Date(),
+      isStreaming: true,
+      modelId,
+      structuredOutput: structured ? { schemaName: structured.name, errors: [] } : undefined,
     };
 
-    setMessages((prev) => [...prev, userMsg]);
-    setIsLoading(true);
+    setMessages((prev) => (retryMessageId ? prev.map((m) => (m.id === retryMessageId ? modelMsg : m)) : [...prev, modelMsg]));
+    setActiveLeafId(modelMsgId);
 
+    let chat = initialChat;
     try {
-      // 3. Add placeholder Model Message
-      const modelMsgId = (Date.now() + 1).toString();
-      const modelMsg: Message = {
-        id: modelMsgId,
-        role: Role.Model,
-        content: '',
-        timestamp: new Date(),
-        isStreaming: true,
-      };
-
-      setMessages((prev) => [...prev, modelMsg]);
+      // 2. Stream response, starting over when a transient error interrupts it
+      for (let attempt = 0; ; attempt++) {
+        try {
+          const stream = chat.sendMessageStream(userMsg.content, userMsg.attachments, abortController.signal, { webSearch: userMsg.webSearch });
 
-      // 4. Stream response
-      const stream = await sendMessageStream(chatInstanceRef.current, content, attachments);
+          for await (const event of stream) {
+            if (abortController.signal.aborted) break;
 
-      for await (const chunk of stream) {
-        const chunkText = chunk.text || ''; 
-        
-        // Check for grounding metadata (web search sources) in the chunk
-        const groundingMetadata = chunk.candidates?.[0]?.groundingMetadata as any;
-        
-        // Check for Image Parts (inlineData)
-        let chunkImage: string | undefined = undefined;
-        const parts = chunk.candidates?.[0]?.content?.parts;
-        if (parts) {
-          for (const part of parts) {
-            if (part.inlineData) {
-              chunkImage = `data:${part.inlineData.mimeType};base64,${part.inlineData.data}`;
+            // Anything other than a thought ends the thinking phase
+            if (thinkingStartedAt !== null && thinkingDurationMs === undefined && event.type !== 'thought' && event.type !== 'usage') {
+              thinkingDurationMs = Date.now() - thinkingStartedAt;
+              updateModelMessage({ thinkingDurationMs });
             }
-          }
-        }
 
-        setMessages((prev) => {
-          const newMessages = [...prev];
-          const lastMessageIndex = newMessages.findIndex((m) => m.id === modelMsgId);
-          if (lastMessageIndex !== -1) {
-            const updatedMessage = {
-              ...newMessages[lastMessageIndex],
-              content: newMessages[lastMessageIndex].content + chunkText,
-            };
-
-            // If we received grounding metadata, attach it to the message
-            if (groundingMetadata) {
-              updatedMessage.groundingMetadata = groundingMetadata;
+            switch (event.type) {
+              case 'thought':
+                if (thinkingStartedAt === null) thinkingStartedAt = Date.now();
+                thoughts += event.text;
+                updateModelMessage({ thoughts });
+                break;
+              case 'text':
+                fullText += event.text;
+                setMessages((prev) => prev.map((m) => (m.id === modelMsgId ? { ...m, content: m.content + event.text } : m)));
+                break;
+              case 'image':
+                images = [...images, event.dataUrl];
+                updateModelMessage({ images });
+                break;
+              case 'sources':
+                // Web search sources, supported segments and queries may come in separate chunks
+                setMessages((prev) => prev.map((m) => (
+                  m.id === modelMsgId ? { ...m, groundingMetadata: { ...m.groundingMetadata, ...event.groundingMetadata } } : m
+                )));
+                break;
+              case 'usage':
+                // Counts are cumulative, the last event has the totals
+                usage = event.usage;
+                break;
+              case 'web-tools':
+                updateModelMessage({ webTools: event.webTools });
+                break;
+              case 'tool-call':
+                toolCalls = [...toolCalls, event.call];
+                updateModelMessage({ toolCalls });
+                break;
+              case 'tool-result':
+                toolCalls = toolCalls.map(call => (call.id === event.id ? { ...call, result: event.result, isError: event.isError } : call));
+                updateModelMessage({ toolCalls });
+                break;
             }
-            
-            // If we received an image, attach it
-            if (chunkImage) {
-               updatedMessage.image = chunkImage;
-            }
-
-            newMessages[lastMessageIndex] = updatedMessage;
           }
-          return newMessages;
-        });
-      }
+          break;
+        } catch (error) {
+          if (abortController.signal.aborted || attempt >= MAX_RETRIES || !classifyError(error).isTransient) throw error;
 
-      // 5. Mark streaming as done
-      setMessages((prev) => {
-        const newMessages = [...prev];
-        const lastMessageIndex = newMessages.findIndex((m) => m.id === modelMsgId);
-        if (lastMessageIndex !== -1) {
-          newMessages[lastMessageIndex] = {
-            ...newMessages[lastMessageIndex],
-            isStreaming: false,
-          };
+          console.warn(`Transient error, retrying (${attempt + 1}/${MAX_RETRIES})`, error);
+          fullText = '';
+          images = [];
+          usage = undefined;
+          toolCalls = [];
+          thoughts = '';
+          thinkingStartedAt = null;
+          thinkingDurationMs = undefined;
+          updateModelMessage({
+            content: '', images: undefined, groundingMetadata: undefined, toolCalls: undefined,
+            thoughts: undefined, thinkingDurationMs: undefined, retryAttempt: attempt + 1
+          });
+          await wait(getRetryDelay(attempt), abortController.signal);
+          // The failed attempt may have left the chat mid tool round (a call without its response),
+          // which the API rejects, so each retry starts from the branch history
+          chat = await createBranchChat(userMsg.parentId);
         }
-        return newMessages;
+      }
+
+      // 3. Mark streaming as done, flagging it when the user stopped it early
+      if (thinkingStartedAt !== null && thinkingDurationMs === undefined) {
+        thinkingDurationMs = Date.now() - thinkingStartedAt;
+      }
+      updateModelMessage({
+        thinkingDurationMs, isStreaming: false, isInterrupted: abortController.signal.aborted || undefined, usage, retryAttempt: undefined,
+        structuredOutput: getStructuredOutput(),
       });
+      if (usage) recordUsage(sessionId, modelId, usage);
+      return abortController.signal.aborted ? null : { content: fullText, images };
 
     } catch (error) {
+      if (abortController.signal.aborted) {
+        // Stopped by the user: keep the partial answer instead of showing an error
+        updateModelMessage({
+          isStreaming: false, isInterrupted: true, usage, retryAttempt: undefined,
+          structuredOutput: getStructuredOutput(),
+        });
+        if (usage) recordUsage(sessionId, modelId, usage);
+        return null;
+      }
+
       console.error('Error sending message:', error);
-      const errorMsg: Message = {
-        id: Date.now().toString(),
-        role: Role.Model,
-        content: "Desculpe, ocorreu um erro ao processar sua solicitação. Por favor, tente novamente.",
+      // The placeholder becomes the error message so it stays on its own branch
+      const { kind, message } = classifyError(error);
+      updateModelMessage({
+        content: message,
         timestamp: new Date(),
+        isStreaming: false,
         isError: true,
-      };
-      setMessages((prev) => [...prev, errorMsg]);
+        errorKind: kind,
+        images: undefined,
+        groundingMetadata: undefined,
+        toolCalls: undefined,
+        thoughts: undefined,
+        thinkingDurationMs: undefined,
+        structuredOutput: undefined,
+        retryAttempt: undefined,
+      });
+      return null;
     } finally {
+      abortControllerRef.current = null;
       setIsLoading(false);
     }
   };
 
-  const currentModel = AVAILABLE_MODELS.find(m => m.id === selectedModelId) || AVAILABLE_MODELS[0];
+  // Runs a send, regenerate or edit unless another one is still being prepared or streamed
+  const runExclusively = async (send: () => Promise<void>) => {
+    if (isSendingRef.current) return;
+    isSendingRef.current = true;
+    try {
+      await send();
+    } finally {
+      isSendingRef.current = false;
+    }
+  };
+
+  const handleSendMessage = async (content: string, attachments: Attachment[] = [], webSearch: WebSearchMode = 'auto') => {
+    if ((!content.trim() && attachments.length === 0) || isLoading) return;
+
+    await runExclusively(async () => {
+      // Editing an earlier generated image branches the conversation from the answer that produced it
+      const editSource = attachments.find(a => a.editSource?.kind === 'generated')?.editSource;
+      const parentId = editSource && editSource.messageId !== activeLeafId && messages.some(m => m.id === editSource.messageId)
+        ? editSource.messageId
+        : activeLeafId;
+
+      // A chat still being rebuilt after a model, persona, branch or option change is waited for
+      const chat = parentId !== activeLeafId ? await createBranchChat(parentId) : await chatInstanceRef.current;
+      if (!chat) {
+        setErrorNotice("Não foi possível preparar o histórico da conversa. Tente enviar novamente.");
+        return;
+      }
+      const isFirstExchange = thread.length === 0;
+
+      // 1. Initialize session if new
+      let activeSessionId = currentSessionId;
+      if (!activeSessionId) {
+        activeSessionId = Date.now().toString();
+        const newSession: ChatSession = {
+          id: activeSessionId,
+          title: 'Nova Conversa',
+          messages: [],
+          createdAt: Date.now(),
+          personaId: activePersona.id,
+          enabledTools,
+          thinking: thinkingLevel,
+          responseSchema: responseSchema ?? undefined,
+        };
+        setSessions(prev => [newSession, ...prev]);
+        setCurrentSessionId(activeSessionId);
+      }
+
+      // 2. Add User Message at the end of the selected branch
+      const userMsg: Message = {
+        id: Date.now().toString(),
+        parentId,
+        role: Role.User,
+        content: content.trim(),
+        attachments: attachments, // Store user attachments
+        webSearch,
+        timestamp: new Date(),
+      };
+
+      setMessages((prev) => [...prev, userMsg]);
+
+      // 3. Stream the answer
+      const answer = await streamModelResponse(chat, userMsg, activeSessionId);
+
+      // 4. Name the conversation in the background once the first exchange completes
+      // (titles come from a Gemini model, so this needs a Gemini key whatever the chat provider is)
+      if (answer && isFirstExchange && hasApiKey()) {
+        const sessionId = activeSessionId;
+        generateChatTitle(userMsg.content, attachments, answer.content, !!answer.images?.length)
+          .then(title => {
+            if (!title) return;
+            // Never overwrite a title the user renamed in the meantime
+            setSessions(prev => prev.map(s => (s.id === sessionId && !s.isTitleEdited ? { ...s, title } : s)));
+          })
+          .catch(error => console.error("Failed to generate chat title", error));
+      }
+    });
+  };
+
+  // Answers the prompt of a model message again, from the history that preceded it
+  const answerAgain = async (message: Message, retryMessageId?: string) => {
+    if (isLoading || !currentSessionId) return;
+
+    const userMsg = messages.find(m => m.id === message.parentId);
+    if (!userMsg) return;
+
+    await runExclusively(async () => {
+      await streamModelResponse(await createBranchChat(userMsg.parentId), userMsg, currentSessionId, retryMessageId);
+    });
+  };
+
+  // Generates an alternate answer as a sibling of the given model message
+  const handleRegenerate = (message: Message) => answerAgain(message);
+
+  // Sends the prompt of a failed answer again, replacing the error in place
+  const handleRetry = (message: Message) => answerAgain(message, message.id);
+
+  // Forks the conversation with an edited copy of a previous user message
+  const handleEditMessage = async (message: Message, content: string, attachments: Attachment[]) => {
+    if ((!content.trim() && attachments.length === 0) || isLoading || !currentSessionId) return;
+
+    const editedMsg: Message = {
+      id: Date.now().toString(),
+      parentId: message.parentId ?? null,
+      role: Role.User,
+      content: content.trim(),
+      attachments: attachments,
+      webSearch: message.webSearch,
+      timestamp: new Date(),
+    };
+
+    await runExclusively(async () => {
+      setMessages((prev) => [...prev, editedMsg]);
+      await streamModelResponse(await createBranchChat(message.parentId), editedMsg, currentSessionId);
+    });
+  };
+
+  // Switches the visible branch to the previous/next version of a message
+  const handleNavigateSibling = (message: Message, direction: -1 | 1) => {
+    const siblings = getSiblings(messages, message);
+    const target = siblings[siblings.findIndex(m => m.id === message.id) + direction];
+    if (!target) return;
+
+    setActiveLeafId(getLatestLeaf(messages, target.id));
+  };
+
+  // Attaches an image to the next prompt so an image model can edit it
+  const handleEditImage = (source: ImageEditSource) => {
+    const message = messages.find(m => m.id === source.messageId);
+    const dataUrl = message && getImageDataUrl(message, source);
+    if (!dataUrl) return;
+
+    if (!currentModel.id.includes('image')) {
+      const imageModel = availableModels.find(m => (m.provider ?? 'gemini') === 'gemini' && m.id.includes('image'));
+      if (imageModel) setSelectedModelId(imageModel.id);
+    }
+
+    chatInputRef.current?.addAttachments([{ ...toAttachment(dataUrl), editSource: source }]);
+  };
+
+  // Dictation goes through the selected Gemini model (or a lightweight one); without a key the browser recognizes speech
+  const handleTranscribe = hasApiKey()
+    ? (audio: Attachment) => {
+        const isGeminiTextModel = (currentModel.provider ?? 'gemini') === 'gemini' && !currentModel.id.includes('image');
+        return transcribeAudio(isGeminiTextModel ? currentModel.id : BACKGROUND_MODEL_ID, audio);
+      }
+    : undefined;
+
+  const handleStopGeneration = () => {
+    abortControllerRef.current?.abort();
+  };
+
+  // Files dragged anywhere over the chat area are attached to the message being written
+  const isFileDrag = (e: React.DragEvent) => e.dataTransfer.types.includes('Files');
+
+  const handleDragOver = (e: React.DragEvent) => {
+    if (!isFileDrag(e)) return;
+    e.preventDefault();
+    setIsDraggingFiles(true);
+  };
+
+  const handleDragLeave = (e: React.DragEvent) => {
+    if (!e.currentTarget.contains(e.relatedTarget as Node | null)) {
+      setIsDraggingFiles(false);
+    }
+  };
+
+  const handleDrop = (e: React.DragEvent) => {
+    if (!isFileDrag(e)) return;
+    e.preventDefault();
+    setIsDraggingFiles(false);
+    chatInputRef.current?.addFiles(Array.from(e.dataTransfer.files));
+  };
 
   return (
     <div className="flex h-screen bg-[#09090b] text-gray-100 overflow-hidden font-sans">
@@ -290,9 +791,59 @@ const App: React.FC = () => {
           currentSessionId={currentSessionId}
           onSelectSession={handleSelectSession}
           onDeleteSession={handleDeleteSession}
+          onUpdateSession={handleUpdateSession}
+          onSearch={searchIndex.search}
+          onOpenSearchResult={handleOpenSearchResult}
+          settings={settings}
+          onOpenSettings={() => setIsSettingsOpen(true)}
+          onOpenUsage={() => setIsUsagePanelOpen(true)}
+          onExportSessions={handleExportSessions}
+          onImportSessions={handleImportSessions}
         />
       </div>
 
+      {/* Settings Modal */}
+      {isSettingsOpen && (
+        <SettingsPanel
+          settings={settings}
+          onSave={handleSaveSettings}
+          onClearData={handleClearData}
+          onClose={() => setIsSettingsOpen(false)}
+        />
+      )}
+
+      {/* Personas Modal */}
+      {isPersonaManagerOpen && (
+        <PersonaManager
+          builtInPersonas={BUILT_IN_PERSONAS}
+          customPersonas={customPersonas}
+          models={availableModels}
+          onSave={handleSavePersonas}
+          onClose={() => setIsPersonaManagerOpen(false)}
+        />
+      )}
+
+      {/* Response Schemas Modal */}
+      {isSchemaManagerOpen && (
+        <SchemaManager
+          builtInSchemas={BUILT_IN_SCHEMAS}
+          customSchemas={customSchemas}
+          onSave={handleSaveSchemas}
+          onClose={() => setIsSchemaManagerOpen(false)}
+        />
+      )}
+
+      {/* Usage Modal */}
+      {isUsagePanelOpen && (
+        <UsagePanel
+          sessions={sessions}
+          models={availableModels}
+          pricing={settings.modelPricing}
+          onSavePricing={(modelPricing) => handleSaveSettings({ ...settings, modelPricing })}
+          onClose={() => setIsUsagePanelOpen(false)}
+        />
+      )}
+
       {/* Overlay for mobile sidebar */}
       {isSidebarOpen && (
         <div 
@@ -302,7 +853,20 @@ const App: React.FC = () => {
       )}
 
       {/* Main Chat Area */}
-      <div className="flex-1 flex flex-col h-full relative">
+      <div
+        className="flex-1 flex flex-col h-full relative"
+        onDragOver={handleDragOver}
+        onDragLeave={handleDragLeave}
+        onDrop={handleDrop}
+      >
+        {/* Drop zone shown while files are dragged over the chat */}
+        {isDraggingFiles && (
+          <div className="absolute inset-3 z-50 flex flex-col items-center justify-center gap-3 rounded-2xl border-2 border-dashed border-white/20 bg-[#09090b]/90 backdrop-blur-sm pointer-events-none">
+            <Upload size={32} className="text-gray-300" />
+            <p className="text-sm font-medium text-gray-200">Solte os arquivos para anexar</p>
+            <p className="text-xs text-gray-500">Imagens, PDFs, áudios e arquivos de texto ou código</p>
+          </div>
+        )}
         
         {/* Header (Desktop & Mobile combined logic) */}
         <div className="absolute top-0 left-0 right-0 h-16 flex items-center justify-between px-4 z-20 pointer-events-none">
@@ -328,40 +892,101 @@ const App: React.FC = () => {
               {/* Dropdown Menu */}
               {isModelMenuOpen && (
                 <div className="absolute top-full left-0 mt-2 w-80 bg-[#18181b] border border-white/10 rounded-xl shadow-xl overflow-hidden animate-in fade-in zoom-in-95 duration-100 origin-top-left z-50">
-                   <div className="p-1.5 space-y-0.5">
-                     {AVAILABLE_MODELS.map((model) => (
-                       <button
-                         key={model.id}
-                         onClick={() => {
-                           setSelectedModelId(model.id);
-                           setIsModelMenuOpen(false);
-                         }}
-                         className={`w-full text-left p-3 rounded-lg flex items-start gap-3 transition-colors ${
-                           selectedModelId === model.id ? 'bg-[#27272a]' : 'hover:bg-[#27272a]/50'
-                         }`}
-                       >
-                         <div className={`mt-0.5 p-1.5 rounded border ${
-                           selectedModelId === model.id ? 'bg-blue-500/10 border-blue-500/30 text-blue-400' : 'bg-gray-800 border-gray-700 text-gray-400'
-                         }`}>
-                           {model.id.includes('image') ? <ImageIcon size={18} /> : (model.isPro ? <BrainCircuit size={18} /> : <Zap size={18} />)}
-                         </div>
-                         <div>
-                           <div className="flex items-center gap-2">
-                             <span className={`text-sm font-medium ${selectedModelId === model.id ? 'text-white' : 'text-gray-200'}`}>
-                               {model.name}
-                             </span>
-                             {selectedModelId === model.id && <div className="w-1.5 h-1.5 rounded-full bg-blue-500" />}
+                   <div className="p-1.5 space-y-0.5 max-h-[70vh] overflow-y-auto">
+                     {availableModels.map((model, index) => (
+                       <React.Fragment key={model.id}>
+                         {/* Provider header, shown when models from several providers are listed */}
+                         {availableModels.some(m => m.provider !== model.provider) && model.provider !== availableModels[index - 1]?.provider && (
+                           <div className="px-3 pt-2 pb-1 text-[11px] font-semibold text-gray-500 uppercase tracking-wider">
+                             {PROVIDERS[model.provider ?? 'gemini'].name}
+                           </div>
+                         )}
+                         <button
+                           onClick={() => {
+                             setSelectedModelId(model.id);
+                             setIsModelMenuOpen(false);
+                           }}
+                           className={`w-full text-left p-3 rounded-lg flex items-start gap-3 transition-colors ${
+                             selectedModelId === model.id ? 'bg-[#27272a]' : 'hover:bg-[#27272a]/50'
+                           }`}
+                         >
+                           <div className={`mt-0.5 p-1.5 rounded border ${
+                             selectedModelId === model.id ? 'bg-blue-500/10 border-blue-500/30 text-blue-400' : 'bg-gray-800 border-gray-700 text-gray-400'
+                           }`}>
+                             {model.id.includes('image') ? <ImageIcon size={18} /> : (model.isPro ? <BrainCircuit size={18} /> : <Zap size={18} />)}
+                           </div>
+                           <div>
+                             <div className="flex items-center gap-2">
+                               <span className={`text-sm font-medium ${selectedModelId === model.id ? 'text-white' : 'text-gray-200'}`}>
+                                 {model.name}
+                               </span>
+                               {selectedModelId === model.id && <div className="w-1.5 h-1.5 rounded-full bg-blue-500" />}
+                             </div>
+                             <p className="text-xs text-gray-500 mt-0.5 leading-relaxed">
+                               {model.description}
+                             </p>
                            </div>
-                           <p className="text-xs text-gray-500 mt-0.5 leading-relaxed">
-                             {model.description}
-                           </p>
-                         </div>
-                       </button>
+                         </button>
+                       </React.Fragment>
                      ))}
                    </div>
                 </div>
               )}
             </div>
+
+            {/* Image Format (Gemini image models only) */}
+            {(currentModel.provider ?? 'gemini') === 'gemini' && currentModel.id.includes('image') && (
+              <ImageOptionsMenu
+                model={currentModel}
+                options={settings.imageGeneration}
+                onChange={(imageGeneration) => handleSaveSettings({ ...settings, imageGeneration })}
+              />
+            )}
+
+            {/* Thinking Level (models that offer it) */}
+            {currentModel.thinkingLevels && (
+              <ThinkingMenu levels={currentModel.thinkingLevels} level={thinkingLevel} onChange={handleChangeThinking} />
+            )}
+
+            {/* Response Format */}
+            {supportsStructuredOutput && (
+              <StructuredOutputMenu
+                schemas={[...BUILT_IN_SCHEMAS, ...customSchemas]}
+                selected={responseSchema}
+                onChange={handleChangeResponseSchema}
+                onManage={() => setIsSchemaManagerOpen(true)}
+              />
+            )}
+
+            {/* Local Tools (Gemini text models only) */}
+            {(currentModel.provider ?? 'gemini') === 'gemini' && !currentModel.id.includes('image') && (
+              <ToolsMenu enabledTools={enabledTools} onChange={handleChangeTools} />
+            )}
+
+            {/* Context Window Meter */}
+            {thread.length > 0 && (
+              <ContextMeter
+                tokens={contextUsage?.leafId === activeLeafId ? contextUsage.tokens : null}
+                contextWindow={getContextWindow(currentModel)}
+                threshold={SUMMARY_THRESHOLD}
+                summary={contextSummary}
+                isSummarizing={isSummarizing}
+                canSummarize={!!currentSessionId && !!getMessagesToSummarize(thread, currentSession?.contextSummary)}
+                isOpen={isContextPanelOpen}
+                onToggle={setIsContextPanelOpen}
+                onSummarize={handleSummarizeContext}
+                onUpdateSummary={(content) => contextSummary && currentSessionId && handleUpdateSession(currentSessionId, { contextSummary: { ...contextSummary, content } })}
+                onRemoveSummary={() => currentSessionId && handleUpdateSession(currentSessionId, { contextSummary: undefined })}
+              />
+            )}
+
+            {/* Active Persona Badge */}
+            {activePersona.id !== DEFAULT_PERSONA_ID && (
+              <div className="hidden sm:flex items-center gap-1.5 px-2.5 py-1 text-xs font-medium text-blue-300 bg-blue-500/10 border border-blue-500/20 rounded-full">
+                <PersonaIcon icon={activePersona.icon} size={12} />
+                {activePersona.name}
+              </div>
+            )}
           </div>
 
           {/* Right Side: New Chat (Mobile Only) */}
@@ -373,9 +998,26 @@ const App: React.FC = () => {
           </button>
         </div>
 
+        {/* Error Banner (storage, import) */}
+        {errorNotice && (
+          <div className="absolute top-16 left-0 right-0 z-20 px-4">
+            <div className="max-w-3xl mx-auto flex items-start gap-3 p-3 bg-red-500/10 border border-red-500/30 rounded-xl text-sm text-red-300 backdrop-blur-sm">
+              <AlertTriangle size={16} className="flex-shrink-0 mt-0.5" />
+              <span className="flex-1">{errorNotice}</span>
+              <button
+                onClick={() => setErrorNotice(null)}
+                className="text-red-300/70 hover:text-red-200 transition-colors"
+                title="Fechar"
+              >
+                <X size={16} />
+              </button>
+            </div>
+          </div>
+        )}
+
         {/* Messages List or Empty State */}
         <div className="flex-1 overflow-y-auto w-full scroll-smooth pt-16">
-          {messages.length === 0 ? (
+          {thread.length === 0 ? (
             <div className="h-full flex flex-col items-center justify-center p-4 max-w-4xl mx-auto">
               {/* Logo */}
               <div className="bg-gradient-to-tr from-blue-500 to-cyan-500 p-4 rounded-2xl mb-8 shadow-2xl shadow-cyan-500/20 animate-in fade-in zoom-in duration-500">
@@ -389,10 +1031,36 @@ const App: React.FC = () => {
               </div>
               
               <h2 className="text-3xl font-bold text-white mb-2 text-center">Como posso ajudar?</h2>
-              <p className="text-gray-400 mb-12 text-center max-w-md">
+              <p className="text-gray-400 mb-8 text-center max-w-md">
                 Utilizando <strong>{currentModel.name}</strong> para {currentModel.isPro ? 'tarefas complexas.' : currentModel.id.includes('image') ? 'gerar imagens.' : 'respostas rápidas.'}
               </p>
 
+              {/* Persona Picker */}
+              <div className="flex flex-wrap justify-center gap-2 mb-10 px-4">
+                {personas.map(persona => (
+                  <button
+                    key={persona.id}
+                    onClick={() => handleSelectPersona(persona)}
+                    className={`flex items-center gap-2 px-3 py-1.5 text-xs font-medium rounded-full border transition-colors ${
+                      persona.id === activePersona.id
+                        ? 'bg-blue-500/10 border-blue-500/30 text-blue-300'
+                        : 'bg-[#18181b] border-white/5 text-gray-400 hover:text-gray-200 hover:border-white/10'
+                    }`}
+                  >
+                    <PersonaIcon icon={persona.icon} size={14} />
+                    {persona.name}
+                  </button>
+                ))}
+                <button
+                  onClick={() => setIsPersonaManagerOpen(true)}
+                  className="flex items-center gap-2 px-3 py-1.5 text-xs font-medium rounded-full border border-dashed border-white/10 text-gray-500 hover:text-gray-200 hover:border-white/20 transition-colors"
+                  title="Gerenciar personas"
+                >
+                  <SlidersHorizontal size={14} />
+                  Gerenciar
+                </button>
+              </div>
+
               {/* Suggestions Grid */}
               <div className="grid grid-cols-1 md:grid-cols-2 gap-4 w-full px-4">
                 {SUGGESTIONS.map((suggestion, index) => (
@@ -412,9 +1080,41 @@ const App: React.FC = () => {
             </div>
           ) : (
             <div className="flex flex-col pb-6">
-              {messages.map((msg) => (
-                <ChatMessage key={msg.id} message={msg} />
-              ))}
+              {thread.map((msg) => {
+                const siblings = getSiblings(messages, msg);
+                return (
+                  <React.Fragment key={msg.id}>
+                    <ChatMessage
+                      message={msg}
+                      isHighlighted={msg.id === highlightedMessageId}
+                      getImageContextStatus={(slot) => imageContext[getImageKey(msg.id, slot)]}
+                      usageCost={msg.usage && msg.modelId ? estimateCost(msg.usage, getModelPricing(msg.modelId, availableModels, settings.modelPricing)) : undefined}
+                      siblingIndex={siblings.findIndex(m => m.id === msg.id)}
+                      siblingCount={siblings.length}
+                      onNavigateSibling={(direction) => handleNavigateSibling(msg, direction)}
+                      onRegenerate={msg.role === Role.Model && !isLoading ? () => handleRegenerate(msg) : undefined}
+                      onRetry={msg.isError && !isLoading ? () => handleRetry(msg) : undefined}
+                      onEdit={msg.role === Role.User && !isLoading ? (content, attachments) => handleEditMessage(msg, content, attachments) : undefined}
+                      onEditImage={handleEditImage}
+                      getImageVersions={(index) => getImageVersions(messages, { messageId: msg.id, kind: 'generated', index })}
+                    />
+
+                    {/* Marks where the summarized part of the conversation ends */}
+                    {msg.id === contextSummary?.upToMessageId && (
+                      <div className="max-w-3xl w-full mx-auto px-4 py-2">
+                        <button
+                          onClick={() => setIsContextPanelOpen(true)}
+                          className="w-full flex items-center gap-3 text-xs text-gray-500 hover:text-gray-300 transition-colors"
+                        >
+                          <div className="flex-1 h-px bg-white/10" />
+                          <span className="flex items-center gap-1.5"><Wand2 size={12} /> Mensagens acima resumidas para o modelo · ver resumo</span>
+                          <div className="flex-1 h-px bg-white/10" />
+                        </button>
+                      </div>
+                    )}
+                  </React.Fragment>
+                );
+              })}
               <div ref={messagesEndRef} className="h-4" />
             </div>
           )}
@@ -426,8 +1126,13 @@ const App: React.FC = () => {
            <div className="absolute top-[-50px] left-0 right-0 h-[50px] bg-gradient-to-t from-[#09090b] to-transparent pointer-events-none" />
            
             <ChatInput 
+              ref={chatInputRef}
               onSend={handleSendMessage} 
+              onStop={handleStopGeneration}
               isLoading={isLoading} 
+              onTranscribe={handleTranscribe}
+              isWebSearchAvailable={(currentModel.provider ?? 'gemini') === 'gemini' && currentModel.id !== 'gemini-2.5-flash-image'}
+              hasLocalTools={enabledTools.length > 0 && !currentModel.id.includes('image') && !parsedResponseSchema}
             />
             <p className="text-[11px] text-center text-gray-500 mt-3 font-medium opacity-60">
               O Gemini pode apresentar informações imprecisas. Verifique respostas importantes.
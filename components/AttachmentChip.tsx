@@ -0,0 +1,52 @@
+import React from 'react';
+import { FileAudio, FileCode, FileText, X } from 'lucide-react';
+import { Attachment } from '../types';
+import { AttachmentKind, formatFileSize, getAttachmentKind } from '../utils/attachments';
+
+const KIND_ICONS: Record<Exclude<AttachmentKind, 'image'>, React.ElementType> = {
+  pdf: FileText,
+  audio: FileAudio,
+  text: FileCode,
+};
+
+interface AttachmentChipProps {
+  attachment: Attachment;
+  onRemove?: () => void;
+  isDownloadable?: boolean; // Nome vira um link para baixar o arquivo
+}
+
+// Non-image attachment shown as its name and size
+export const AttachmentChip: React.FC<AttachmentChipProps> = ({ attachment, onRemove, isDownloadable }) => {
+  const kind = getAttachmentKind(attachment.mimeType);
+  const Icon = KIND_ICONS[kind === 'image' ? 'text' : kind];
+
+  const label = (
+    <>
+      <span className="block truncate text-xs font-medium text-gray-200">{attachment.name}</span>
+      <span className="block text-[11px] text-gray-500">{formatFileSize(attachment.size)}</span>
+    </>
+  );
+
+  return (
+    <div className="relative flex items-center gap-2.5 h-16 md:h-20 w-48 max-w-full px-3 rounded-xl border border-white/10 bg-[#1e1e21] flex-shrink-0">
+      <div className="flex items-center justify-center w-9 h-9 rounded-lg bg-white/5 text-gray-300 flex-shrink-0">
+        <Icon size={18} />
+      </div>
+      {isDownloadable ? (
+        <a href={attachment.data} download={attachment.name} className="min-w-0 hover:underline" title="Baixar arquivo">
+          {label}
+        </a>
+      ) : (
+        <div className="min-w-0">{label}</div>
+      )}
+      {onRemove && (
+        <button
+          onClick={onRemove}
+          className="absolute -top-1.5 -right-1.5 bg-gray-800 text-white rounded-full p-0.5 border border-white/20 hover:bg-red-500 transition-colors shadow-sm"
+        >
+          <X size={12} />
+        </button>
+      )}
+    </div>
+  );
+};
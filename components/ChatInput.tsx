@@ -1,24 +1,68 @@
-import React, { useState, useRef, useEffect } from 'react';
-import { Send, Loader2, Paperclip, Mic, X, Image as ImageIcon } from 'lucide-react';
+import React, { useState, useRef, useEffect, forwardRef, useImperativeHandle } from 'react';
+import { Send, Square, Paperclip, Mic, X, AlertCircle, Check, Loader2, Wand2 } from 'lucide-react';
+import { Attachment, WebSearchMode } from '../types';
+import { AttachmentChip } from './AttachmentChip';
+import { WebSearchToggle } from './WebSearchToggle';
+import { useVoiceInput } from '../hooks/useVoiceInput';
+import {
+  ACCEPTED_FILE_TYPES,
+  MAX_MESSAGE_ATTACHMENTS_SIZE,
+  formatFileSize,
+  getAttachmentKind,
+  readFileAsAttachment,
+  validateFile
+} from '../utils/attachments';
 
 interface ChatInputProps {
-  onSend: (content: string, attachments: string[]) => void;
+  onSend: (content: string, attachments: Attachment[], webSearch: WebSearchMode) => void;
+  onStop: () => void;
   isLoading: boolean;
+  onTranscribe?: (audio: Attachment) => Promise<string>; // Transcrição por modelo (senão, reconhecimento de voz do navegador)
+  isWebSearchAvailable?: boolean; // O modelo atual pode pesquisar na web
+  hasLocalTools?: boolean; // Ferramentas locais ativadas na conversa
 }
 
-export const ChatInput: React.FC<ChatInputProps> = ({ onSend, isLoading }) => {
+// Lets the chat area hand over files dropped anywhere on it, or images picked for editing
+export interface ChatInputHandle {
+  addFiles: (files: File[]) => void;
+  addAttachments: (attachments: Attachment[]) => void;
+}
+
+export const ChatInput = forwardRef<ChatInputHandle, ChatInputProps>(({ onSend, onStop, isLoading, onTranscribe, isWebSearchAvailable, hasLocalTools }, ref) => {
   const [content, setContent] = useState('');
-  const [attachments, setAttachments] = useState<string[]>([]);
+  // Kept between messages; each message records the choice it was sent with
+  const [webSearch, setWebSearch] = useState<WebSearchMode>('auto');
+  const [attachments, setAttachments] = useState<Attachment[]>([]);
+  const [fileErrors, setFileErrors] = useState<string[]>([]);
+  // Current attachments for code that runs after an await, where the state above may be stale
+  const attachmentsRef = useRef<Attachment[]>([]);
   const textareaRef = useRef<HTMLTextAreaElement>(null);
   const fileInputRef = useRef<HTMLInputElement>(null);
 
+  // Dictated text is added to the draft so it can be reviewed before sending
+  const voice = useVoiceInput({
+    transcribe: onTranscribe,
+    onTranscript: (text) => setContent(prev => (prev.trim() ? `${prev.trimEnd()} ${text}` : text)),
+  });
+  const isVoiceActive = voice.status !== 'idle';
+  const wasVoiceActiveRef = useRef(false);
+  const inputErrors = voice.error ? [...fileErrors, voice.error] : fileErrors;
+
   // Auto-resize textarea
   useEffect(() => {
     if (textareaRef.current) {
       textareaRef.current.style.height = 'auto';
       textareaRef.current.style.height = `${Math.min(textareaRef.current.scrollHeight, 200)}px`;
     }
-  }, [content]);
+  }, [content, isVoiceActive]);
+
+  // The textarea is replaced by the recording bar; give it focus back once dictation ends
+  useEffect(() => {
+    if (wasVoiceActiveRef.current && !isVoiceActive) {
+      textareaRef.current?.focus();
+    }
+    wasVoiceActiveRef.current = isVoiceActive;
+  }, [isVoiceActive]);
 
   const handleKeyDown = (e: React.KeyboardEvent) => {
     if (e.key === 'Enter' && !e.shiftKey) {
@@ -27,26 +71,65 @@ export const ChatInput: React.FC<ChatInputProps> = ({ onSend, isLoading }) => {
     }
   };
 
-  const handleFileSelect = async (e: React.ChangeEvent<HTMLInputElement>) => {
-    if (e.target.files && e.target.files.length > 0) {
-      const newAttachments: string[] = [];
-      const files = Array.from(e.target.files) as File[];
-
-      // Process all files
-      for (const file of files) {
-        // Simple check for image types
-        if (!file.type.startsWith('image/')) continue;
-
-        try {
-          const base64 = await convertFileToBase64(file);
-          newAttachments.push(base64);
-        } catch (err) {
-          console.error("Error reading file", err);
-        }
+  const updateAttachments = (next: Attachment[]) => {
+    attachmentsRef.current = next;
+    setAttachments(next);
+  };
+
+  // Validates and reads files from the picker, a drop or the clipboard
+  const addFiles = async (files: File[]) => {
+    const errors: string[] = [];
+    const read: { file: File, attachment: Attachment }[] = [];
+
+    for (const file of files) {
+      const error = validateFile(file);
+      if (error) {
+        errors.push(error);
+        continue;
+      }
+
+      try {
+        read.push({ file, attachment: await readFileAsAttachment(file) });
+      } catch (err) {
+        console.error("Error reading file", err);
+        errors.push(`${file.name}: não foi possível ler o arquivo.`);
       }
+    }
+
+    // The total is checked against the latest attachments, which other adds may have changed while these files were read
+    const current = attachmentsRef.current;
+    let totalSize = current.reduce((sum, a) => sum + a.size, 0);
+    const accepted: Attachment[] = [];
+    const oversized: File[] = [];
+    for (const { file, attachment } of read) {
+      if (totalSize + attachment.size > MAX_MESSAGE_ATTACHMENTS_SIZE) {
+        oversized.push(file);
+      } else {
+        accepted.push(attachment);
+        totalSize += attachment.size;
+      }
+    }
+
+    updateAttachments([...current, ...accepted]);
+    setFileErrors([
+      ...errors,
+      ...oversized.map(file => `${file.name}: os anexos de uma mensagem não podem passar de ${formatFileSize(MAX_MESSAGE_ATTACHMENTS_SIZE)} no total.`),
+    ]);
+  };
+
+  // Images being edited are already validated; a new one replaces the previous, so each prompt edits a single image
+  const addAttachments = (newAttachments: Attachment[]) => {
+    setFileErrors([]);
+    updateAttachments([...attachmentsRef.current.filter(a => !a.editSource), ...newAttachments]);
+    textareaRef.current?.focus();
+  };
+
+  useImperativeHandle(ref, () => ({ addFiles, addAttachments }));
+
+  const handleFileSelect = (e: React.ChangeEvent<HTMLInputElement>) => {
+    if (e.target.files && e.target.files.length > 0) {
+      addFiles(Array.from(e.target.files));
 
-      setAttachments(prev => [...prev, ...newAttachments]);
-      
       // Reset input so same files can be selected again if needed
       if (fileInputRef.current) {
         fileInputRef.current.value = '';
@@ -54,24 +137,25 @@ export const ChatInput: React.FC<ChatInputProps> = ({ onSend, isLoading }) => {
     }
   };
 
-  const convertFileToBase64 = (file: File): Promise<string> => {
-    return new Promise((resolve, reject) => {
-      const reader = new FileReader();
-      reader.readAsDataURL(file);
-      reader.onload = () => resolve(reader.result as string);
-      reader.onerror = error => reject(error);
-    });
+  // Pasted files (e.g. screenshots) become attachments; pasted text is left alone
+  const handlePaste = (e: React.ClipboardEvent) => {
+    const files = Array.from(e.clipboardData.files);
+    if (files.length > 0) {
+      e.preventDefault();
+      addFiles(files);
+    }
   };
 
   const removeAttachment = (index: number) => {
-    setAttachments(prev => prev.filter((_, i) => i !== index));
+    updateAttachments(attachmentsRef.current.filter((_, i) => i !== index));
   };
 
   const handleSubmit = () => {
-    if ((!content.trim() && attachments.length === 0) || isLoading) return;
-    onSend(content, attachments);
+    if ((!content.trim() && attachments.length === 0) || isLoading || isVoiceActive) return;
+    onSend(content, attachments, isWebSearchAvailable ? webSearch : 'auto');
     setContent('');
-    setAttachments([]);
+    updateAttachments([]);
+    setFileErrors([]);
     // Reset height immediately
     if (textareaRef.current) {
       textareaRef.current.style.height = 'auto';
@@ -84,14 +168,32 @@ export const ChatInput: React.FC<ChatInputProps> = ({ onSend, isLoading }) => {
 
   return (
     <div className="relative w-full max-w-3xl mx-auto px-2 md:px-4">
+      {/* Rejected files and microphone errors */}
+      {inputErrors.length > 0 && (
+        <div className="flex items-start gap-2 mb-2 px-3 py-2 text-xs text-red-300 bg-red-500/10 border border-red-500/20 rounded-xl">
+          <AlertCircle size={14} className="flex-shrink-0 mt-0.5" />
+          <ul className="flex-1 space-y-0.5">
+            {inputErrors.map((error, idx) => <li key={idx}>{error}</li>)}
+          </ul>
+          <button onClick={() => { setFileErrors([]); voice.clearError(); }} className="text-red-300 hover:text-white transition-colors">
+            <X size={14} />
+          </button>
+        </div>
+      )}
+
       {/* Attachments Preview Area */}
       {attachments.length > 0 && (
         <div className="flex gap-2 overflow-x-auto py-2 mb-2 px-1 scrollbar-thin scrollbar-thumb-gray-700">
-          {attachments.map((src, idx) => (
+          {attachments.map((attachment, idx) => getAttachmentKind(attachment.mimeType) === 'image' ? (
             <div key={idx} className="relative flex-shrink-0 group">
               <div className="w-16 h-16 md:w-20 md:h-20 rounded-xl overflow-hidden border border-white/10 bg-[#1e1e21]">
-                <img src={src} alt="attachment" className="w-full h-full object-cover" />
+                <img src={attachment.data} alt={attachment.name} className="w-full h-full object-cover" />
               </div>
+              {attachment.editSource && (
+                <div className="absolute bottom-1 left-1 p-1 bg-black/70 text-white rounded-md" title="Imagem a ser editada">
+                  <Wand2 size={10} />
+                </div>
+              )}
               <button 
                 onClick={() => removeAttachment(idx)}
                 className="absolute -top-1.5 -right-1.5 bg-gray-800 text-white rounded-full p-0.5 border border-white/20 hover:bg-red-500 transition-colors shadow-sm"
@@ -99,6 +201,8 @@ export const ChatInput: React.FC<ChatInputProps> = ({ onSend, isLoading }) => {
                 <X size={12} />
               </button>
             </div>
+          ) : (
+            <AttachmentChip key={idx} attachment={attachment} onRemove={() => removeAttachment(idx)} />
           ))}
         </div>
       )}
@@ -109,7 +213,7 @@ export const ChatInput: React.FC<ChatInputProps> = ({ onSend, isLoading }) => {
         <input 
           type="file" 
           multiple 
-          accept="image/*" 
+          accept={ACCEPTED_FILE_TYPES}
           ref={fileInputRef} 
           className="hidden" 
           onChange={handleFileSelect}
@@ -119,49 +223,102 @@ export const ChatInput: React.FC<ChatInputProps> = ({ onSend, isLoading }) => {
         <button 
           onClick={triggerFileSelect}
           className="p-3 text-gray-400 hover:text-white transition-colors rounded-xl hover:bg-white/5 mb-0.5"
-          title="Anexar imagens"
+          title="Anexar arquivos (também é possível arrastar ou colar)"
         >
            <Paperclip size={20} />
         </button>
 
-        <textarea
-          ref={textareaRef}
-          value={content}
-          onChange={(e) => setContent(e.target.value)}
-          onKeyDown={handleKeyDown}
-          placeholder={attachments.length > 0 ? "Adicione uma legenda..." : "Envie uma mensagem..."}
-          className="w-full max-h-[200px] py-3.5 px-3 bg-transparent border-0 focus:ring-0 resize-none text-gray-100 placeholder-gray-500 leading-relaxed scrollbar-hide font-medium"
-          rows={1}
-          disabled={isLoading}
-        />
+        {/* Web Search Choice */}
+        {isWebSearchAvailable && <WebSearchToggle mode={webSearch} onChange={setWebSearch} hasLocalTools={hasLocalTools} />}
+
+        {isVoiceActive ? (
+          <div className="flex-1 flex items-center gap-3 py-3.5 px-3 text-sm text-gray-300">
+            {voice.status === 'recording' ? (
+              <>
+                <span className="w-2.5 h-2.5 rounded-full bg-red-500 animate-pulse" />
+                <span>Gravando</span>
+                <span className="tabular-nums text-gray-500">
+                  {Math.floor(voice.elapsedSeconds / 60)}:{(voice.elapsedSeconds % 60).toString().padStart(2, '0')}
+                </span>
+              </>
+            ) : (
+              <>
+                <Loader2 size={16} className="animate-spin text-gray-400" />
+                <span>Transcrevendo áudio...</span>
+              </>
+            )}
+          </div>
+        ) : (
+          <textarea
+            ref={textareaRef}
+            value={content}
+            onChange={(e) => setContent(e.target.value)}
+            onKeyDown={handleKeyDown}
+            onPaste={handlePaste}
+            placeholder={attachments.some(a => a.editSource) ? "Descreva a alteração na imagem..." : attachments.length > 0 ? "Adicione uma legenda..." : "Envie uma mensagem..."}
+            className="w-full max-h-[200px] py-3.5 px-3 bg-transparent border-0 focus:ring-0 resize-none text-gray-100 placeholder-gray-500 leading-relaxed scrollbar-hide font-medium"
+            rows={1}
+            disabled={isLoading}
+          />
+        )}
         
         <div className="flex items-center gap-1 mb-1 mr-1">
-            {/* Conditional Mic or Send */}
-            {!content.trim() && attachments.length === 0 && (
-                <button className="hidden sm:block p-2 text-gray-400 hover:text-white transition-colors rounded-xl hover:bg-white/5">
+            {/* Voice Input */}
+            {isVoiceActive ? (
+                <>
+                    <button
+                        onClick={voice.cancel}
+                        className="p-2 text-gray-400 hover:text-white transition-colors rounded-xl hover:bg-white/5"
+                        title="Descartar gravação"
+                    >
+                        <X size={20} />
+                    </button>
+                    {voice.status === 'recording' && (
+                        <button
+                            onClick={voice.stop}
+                            className="p-2 rounded-xl bg-white text-black hover:bg-gray-200 transition-colors shadow-lg shadow-white/10"
+                            title="Concluir e transcrever"
+                        >
+                            <Check size={18} strokeWidth={2.5} />
+                        </button>
+                    )}
+                </>
+            ) : (
+                <button
+                    onClick={voice.start}
+                    disabled={!voice.isSupported || isLoading}
+                    className="p-2 text-gray-400 hover:text-white transition-colors rounded-xl hover:bg-white/5 disabled:opacity-40 disabled:hover:text-gray-400 disabled:hover:bg-transparent"
+                    title={voice.isSupported ? "Ditar mensagem" : "Entrada por voz indisponível neste navegador"}
+                >
                     <Mic size={20} />
                 </button>
             )}
 
-            <button
-            onClick={handleSubmit}
-            disabled={(!content.trim() && attachments.length === 0) || isLoading}
-            className={`
-                p-2 rounded-xl transition-all duration-200 flex items-center justify-center
-                ${(!content.trim() && attachments.length === 0) || isLoading 
-                ? 'bg-transparent text-gray-600 cursor-not-allowed' 
-                : 'bg-white text-black hover:bg-gray-200 shadow-lg shadow-white/10'
-                }
-            `}
-            >
-            {isLoading ? (
-                <Loader2 size={18} className="animate-spin" />
+            {isVoiceActive ? null : isLoading ? (
+                <button
+                onClick={onStop}
+                className="p-2 rounded-xl transition-all duration-200 flex items-center justify-center bg-white text-black hover:bg-gray-200 shadow-lg shadow-white/10"
+                title="Parar geração"
+                >
+                <Square size={18} className="fill-black" />
+                </button>
             ) : (
+                <button
+                onClick={handleSubmit}
+                disabled={!content.trim() && attachments.length === 0}
+                className={`
+                    p-2 rounded-xl transition-all duration-200 flex items-center justify-center
+                    ${!content.trim() && attachments.length === 0
+                    ? 'bg-transparent text-gray-600 cursor-not-allowed' 
+                    : 'bg-white text-black hover:bg-gray-200 shadow-lg shadow-white/10'
+                    }
+                `}
+                >
                 <Send size={18} strokeWidth={2.5} />
+                </button>
             )}
-            </button>
         </div>
       </div>
     </div>
   );
-};
\ No newline at end of file
+});
\ No newline at end of file
@@ -1,14 +1,63 @@
 import React, { useState } from 'react';
-import ReactMarkdown from 'react-markdown';
+import ReactMarkdown, { Options as MarkdownOptions } from 'react-markdown';
+import remarkGfm from 'remark-gfm';
+import remarkMath from 'remark-math';
+import rehypeKatex from 'rehype-katex';
 import { Prism as SyntaxHighlighter } from 'react-syntax-highlighter';
 import { vscDarkPlus } from 'react-syntax-highlighter/dist/esm/styles/prism';
-import { Message, Role, GroundingWebSource } from '../types';
-import { User, Sparkles, Copy, Check, FileCode, Globe, ChevronDown } from 'lucide-react';
+import { Attachment, ImageEditSource, Message, Role, GroundingWebSource, ToolCall } from '../types';
+import { User, Sparkles, Copy, Check, FileCode, Globe, ChevronDown, ChevronLeft, ChevronRight, CircleStop, RefreshCw, Pencil, X, Eye, EyeOff, Minimize2, RotateCw, Loader2, Wand2, Columns2, Wrench, AlertCircle, Search, Brain, Workflow, Code2 } from 'lucide-react';
+import { MAX_RETRIES } from '../services/chatErrors';
+import { ImageContextStatus, ImageSlot } from '../utils/historyBuilder';
+import { formatTokens, formatCost } from '../services/usageService';
+import { getToolLabel } from '../services/tools';
+import { getAttachmentKind } from '../utils/attachments';
+import { getCitedSources, insertCitations } from '../utils/citations';
+import { escapeCurrencyDollars } from '../utils/markdownMath';
+import { AttachmentChip } from './AttachmentChip';
+import { ReadAloudButton } from './ReadAloudButton';
+import { ImageLightbox } from './ImageLightbox';
+import { ImageCompare } from './ImageCompare';
+import { StructuredView } from './StructuredView';
+import { MermaidDiagram } from './MermaidDiagram';
+import { ImageVersion } from '../utils/imageEdits';
 
 interface ChatMessageProps {
   message: Message;
+  siblingIndex?: number; // Posição desta versão entre as alternativas
+  siblingCount?: number;
+  onNavigateSibling?: (direction: -1 | 1) => void;
+  onRegenerate?: () => void;
+  onRetry?: () => void; // Reenvia o prompt de uma resposta com erro
+  onEdit?: (content: string, attachments: Attachment[]) => void;
+  isHighlighted?: boolean; // Destaque temporário ao abrir pela busca
+  getImageContextStatus?: (slot: ImageSlot) => ImageContextStatus | undefined; // Se a imagem ainda é enviada ao modelo
+  usageCost?: number; // Custo estimado da resposta, em dólares
+  onEditImage?: (source: ImageEditSource) => void; // Anexa a imagem ao próximo pedido para editá-la
+  getImageVersions?: (index: number) => ImageVersion[]; // Versões anteriores de uma imagem gerada
 }
 
+const IMAGE_CONTEXT_BADGES: Record<ImageContextStatus, { icon: React.ReactNode, label: string, className: string }> = {
+  full: { icon: <Eye size={11} />, label: 'No contexto do modelo', className: 'text-green-300' },
+  reduced: { icon: <Minimize2 size={11} />, label: 'No contexto em resolução reduzida', className: 'text-amber-300' },
+  dropped: { icon: <EyeOff size={11} />, label: 'Fora do contexto: o modelo não vê mais este arquivo', className: 'text-gray-400' },
+};
+
+// Small overlay telling whether an image or file is still part of the history sent to the model
+const ImageContextBadge: React.FC<{ status?: ImageContextStatus, position?: string }> = ({ status, position = 'bottom-1.5 left-1.5' }) => {
+  if (!status) return null;
+  const badge = IMAGE_CONTEXT_BADGES[status];
+  return (
+    <div
+      className={`absolute ${position} flex items-center gap-1 px-1.5 py-0.5 text-[10px] font-medium bg-black/70 backdrop-blur-sm rounded-md ${badge.className}`}
+      title={badge.label}
+    >
+      {badge.icon}
+      {status !== 'full' && <span>{status === 'reduced' ? 'Reduzida' : 'Fora do contexto'}</span>}
+    </div>
+  );
+};
+
 const languageMap: Record<string, string> = {
   js: 'JavaScript',
   ts: 'TypeScript',
@@ -31,8 +80,14 @@ const languageMap: Record<string, string> = {
   yaml: 'YAML',
   xml: 'XML',
   md: 'Markdown',
+  mermaid: 'Mermaid',
 };
 
+// GFM (tables, strikethrough, task lists) and $...$ / $$...$$ math; dollars that are money are escaped beforehand.
+// KaTeX errors are drawn as plain source instead of throwing, since formulas arrive half-written while streaming
+const remarkPlugins: MarkdownOptions['remarkPlugins'] = [remarkGfm, remarkMath];
+const rehypePlugins: MarkdownOptions['rehypePlugins'] = [[rehypeKatex, { throwOnError: false, strict: 'ignore', errorColor: '#a1a1aa' }]];
+
 // Helper function to extract hostname for favicons
 const getHostname = (url: string) => {
   try {
@@ -54,6 +109,7 @@ const SourceItem: React.FC<{ source: GroundingWebSource, index: number }> = ({ s
       rel="noopener noreferrer"
       className="flex items-center gap-3 p-3 bg-[#18181b] hover:bg-[#27272a] border border-white/5 hover:border-white/10 rounded-xl transition-all duration-200 group no-underline"
     >
+      <span className="text-[11px] font-semibold text-gray-500 tabular-nums">{index + 1}</span>
       <div className="w-8 h-8 rounded-lg bg-white/5 flex items-center justify-center flex-shrink-0 overflow-hidden">
         <img 
           src={faviconUrl} 
@@ -80,9 +136,98 @@ const SourceItem: React.FC<{ source: GroundingWebSource, index: number }> = ({ s
   );
 };
 
+const formatToolValue = (value: unknown) => JSON.stringify(value, null, 2);
+
+// A local tool the model called: collapsed to its name and status, expandable to the arguments and result
+const ToolCallStep = ({ call }: { call: ToolCall }) => {
+  const isRunning = call.result === undefined;
+  return (
+    <details className="group/tool rounded-lg border border-white/10 bg-white/[0.02] text-xs">
+      <summary className="flex items-center gap-2 px-3 py-2 cursor-pointer select-none list-none text-gray-400 hover:text-gray-200 transition-colors">
+        {isRunning ? (
+          <Loader2 size={12} className="animate-spin text-blue-400" />
+        ) : call.isError ? (
+          <AlertCircle size={12} className="text-red-400" />
+        ) : (
+          <Wrench size={12} className="text-blue-400" />
+        )}
+        <span className="font-medium text-gray-300">{getToolLabel(call.name)}</span>
+        <span className="text-gray-500">{isRunning ? 'executando...' : call.isError ? 'falhou' : 'concluído'}</span>
+        <ChevronDown size={12} className="ml-auto transition-transform group-open/tool:rotate-180" />
+      </summary>
+      <div className="px-3 pb-3 space-y-2">
+        <div>
+          <div className="mb-1 text-[10px] font-semibold text-gray-500 uppercase tracking-wider">Argumentos</div>
+          <pre className="p-2 rounded-md bg-black/30 text-gray-300 overflow-x-auto whitespace-pre-wrap break-all">{formatToolValue(call.args)}</pre>
+        </div>
+        {!isRunning && (
+          <div>
+            <div className="mb-1 text-[10px] font-semibold text-gray-500 uppercase tracking-wider">Resultado</div>
+            <pre className={`p-2 rounded-md bg-black/30 overflow-x-auto whitespace-pre-wrap break-all ${call.isError ? 'text-red-300' : 'text-gray-300'}`}>{formatToolValue(call.result)}</pre>
+          </div>
+        )}
+      </div>
+    </details>
+  );
+};
+
+// The model's thought summaries: shown live while it thinks, collapsed once the answer starts
+const ThoughtsPanel = ({ message }: { message: Message }) => {
+  const [isExpanded, setIsExpanded] = useState(false);
+  const isThinking = !!message.isStreaming && message.thinkingDurationMs === undefined;
+  const isOpen = isExpanded || isThinking;
+  const thinkingTokens = message.isStreaming ? undefined : message.usage?.thinkingTokens;
+
+  return (
+    <div className="mb-4 rounded-lg border border-white/10 bg-white/[0.02]">
+      <button
+        onClick={() => setIsExpanded(!isOpen)}
+        className="w-full flex items-center gap-2 px-3 py-2 text-xs text-gray-400 hover:text-gray-200 transition-colors"
+      >
+        {isThinking ? <Loader2 size={12} className="animate-spin text-blue-400" /> : <Brain size={12} className="text-blue-400" />}
+        <span className="font-medium text-gray-300">{isThinking ? 'Raciocinando...' : 'Raciocínio'}</span>
+        <span className="text-gray-500 tabular-nums">
+          {[
+            message.thinkingDurationMs !== undefined ? `${Math.max(1, Math.round(message.thinkingDurationMs / 1000))}s` : '',
+            thinkingTokens ? `${formatTokens(thinkingTokens)} tokens` : '',
+          ].filter(Boolean).join(' · ')}
+        </span>
+        <ChevronDown size={12} className={`ml-auto transition-transform ${isOpen ? 'rotate-180' : ''}`} />
+      </button>
+      {isOpen && (
+        <div className="markdown-content px-3 pt-2 pb-3 border-t border-white/5 text-xs leading-6 text-gray-400">
+          <ReactMarkdown remarkPlugins={remarkPlugins} rehypePlugins={rehypePlugins}>{escapeCurrencyDollars(message.thoughts)}</ReactMarkdown>
+        </div>
+      )}
+    </div>
+  );
+};
+
+// Numbered marker after a cited segment; hovering shows which source backs it
+const Citation = ({ number, source }: { number: number, source: GroundingWebSource }) => {
+  const hostname = getHostname(source.uri);
+  return (
+    <span className="relative inline-block group/cite align-super leading-none">
+      <a
+        href={source.uri}
+        target="_blank"
+        rel="noopener noreferrer"
+        className="ml-0.5 px-1 py-0.5 text-[10px] font-semibold text-blue-300 bg-blue-500/15 hover:bg-blue-500/30 rounded no-underline transition-colors"
+      >
+        {number}
+      </a>
+      <span className="invisible opacity-0 group-hover/cite:visible group-hover/cite:opacity-100 absolute bottom-full left-1/2 -translate-x-1/2 mb-1.5 w-64 p-3 bg-[#18181b] border border-white/10 rounded-xl shadow-xl transition-opacity z-20 text-left">
+        <span className="block text-xs font-semibold text-gray-200 leading-snug line-clamp-2">{source.title || hostname}</span>
+        <span className="block mt-1 text-[10px] text-gray-500 truncate">{hostname}</span>
+      </span>
+    </span>
+  );
+};
+
 // Componente isolado para o Bloco de Código gerenciar seu próprio estado de cópia
-const CodeBlock = ({ language, value }: { language: string, value: string }) => {
+const CodeBlock = ({ language, value, isStreaming }: { language: string, value: string, isStreaming?: boolean }) => {
   const [isCopied, setIsCopied] = useState(false);
+  const [showSource, setShowSource] = useState(false);
 
   const copyToClipboard = () => {
     if (!navigator.clipboard) return;
@@ -94,6 +239,37 @@ const CodeBlock = ({ language, value }: { language: string, value: string }) =>
   // Formata o nome da linguagem para exibição
   const langKey = (language || '').toLowerCase();
   const displayTitle = languageMap[langKey] || (langKey ? langKey.charAt(0).toUpperCase() + langKey.slice(1) : 'Texto');
+  const isDiagram = langKey === 'mermaid';
+
+  // Área do Código com Scroll Horizontal Seguro
+  const source = (
+    <div className="w-full overflow-x-auto scrollbar-thin scrollbar-thumb-gray-700/50 scrollbar-track-transparent">
+      <SyntaxHighlighter
+        style={vscDarkPlus}
+        language={language}
+        PreTag="div"
+        customStyle={{
+          margin: 0,
+          padding: '1.5rem',
+          backgroundColor: 'transparent',
+          fontSize: '0.9em',
+          lineHeight: '1.6',
+          width: 'fit-content', 
+          minWidth: '100%',     
+        }}
+        codeTagProps={{
+          style: {
+              whiteSpace: 'pre',
+              display: 'block',
+              fontFamily: "'Menlo', 'Monaco', 'Courier New', monospace",
+              fontVariantLigatures: 'none'
+          }
+        }}
+      >
+        {value}
+      </SyntaxHighlighter>
+    </div>
+  );
 
   return (
     <div className="my-5 rounded-xl border border-white/10 bg-[#0d0d0d] overflow-hidden shadow-md group/code">
@@ -107,77 +283,117 @@ const CodeBlock = ({ language, value }: { language: string, value: string }) =>
            </span>
         </div>
         
-        <button 
-          onClick={copyToClipboard}
-          className="flex items-center gap-1.5 text-xs font-medium text-gray-500 hover:text-gray-200 transition-colors bg-white/5 hover:bg-white/10 px-2.5 py-1 rounded-md"
-          title="Copiar código"
-        >
-          {isCopied ? (
-            <>
-              <Check size={12} className="text-green-400" />
-              <span className="text-green-400">Copiado!</span>
-            </>
-          ) : (
-            <>
-              <Copy size={12} />
-              <span>Copiar</span>
-            </>
+        <div className="flex items-center gap-1.5">
+          {isDiagram && (
+            <button
+              onClick={() => setShowSource(!showSource)}
+              className="flex items-center gap-1.5 text-xs font-medium text-gray-500 hover:text-gray-200 transition-colors bg-white/5 hover:bg-white/10 px-2.5 py-1 rounded-md"
+              title={showSource ? 'Mostrar diagrama' : 'Mostrar código'}
+            >
+              {showSource ? <Workflow size={12} /> : <Code2 size={12} />}
+              <span>{showSource ? 'Diagrama' : 'Código'}</span>
+            </button>
           )}
-        </button>
+          <button 
+            onClick={copyToClipboard}
+            className="flex items-center gap-1.5 text-xs font-medium text-gray-500 hover:text-gray-200 transition-colors bg-white/5 hover:bg-white/10 px-2.5 py-1 rounded-md"
+            title="Copiar código"
+          >
+            {isCopied ? (
+              <>
+                <Check size={12} className="text-green-400" />
+                <span className="text-green-400">Copiado!</span>
+              </>
+            ) : (
+              <>
+                <Copy size={12} />
+                <span>Copiar</span>
+              </>
+            )}
+          </button>
+        </div>
       </div>
       
-      {/* Área do Código com Scroll Horizontal Seguro */}
-      <div className="w-full overflow-x-auto scrollbar-thin scrollbar-thumb-gray-700/50 scrollbar-track-transparent">
-        <SyntaxHighlighter
-          style={vscDarkPlus}
-          language={language}
-          PreTag="div"
-          customStyle={{
-            margin: 0,
-            padding: '1.5rem',
-            backgroundColor: 'transparent',
-            fontSize: '0.9em',
-            lineHeight: '1.6',
-            width: 'fit-content', 
-            minWidth: '100%',     
-          }}
-          codeTagProps={{
-            style: {
-                whiteSpace: 'pre',
-                display: 'block',
-                fontFamily: "'Menlo', 'Monaco', 'Courier New', monospace",
-                fontVariantLigatures: 'none'
-            }
-          }}
-        >
-          {value}
-        </SyntaxHighlighter>
-      </div>
+      {isDiagram && !showSource ? (
+        <MermaidDiagram code={value} isStreaming={isStreaming} fallback={source} />
+      ) : source}
     </div>
   );
 };
 
-export const ChatMessage: React.FC<ChatMessageProps> = ({ message }) => {
+export const ChatMessage: React.FC<ChatMessageProps> = ({
+  message,
+  siblingIndex = 0,
+  siblingCount = 1,
+  onNavigateSibling,
+  onRegenerate,
+  onRetry,
+  onEdit,
+  isHighlighted = false,
+  getImageContextStatus,
+  usageCost,
+  onEditImage,
+  getImageVersions
+}) => {
   const isUser = message.role === Role.User;
   const [copied, setCopied] = React.useState(false);
   const [showAllSources, setShowAllSources] = React.useState(false);
+  const [isEditing, setIsEditing] = React.useState(false);
+  const [editContent, setEditContent] = React.useState('');
+  const [editAttachments, setEditAttachments] = React.useState<Attachment[]>([]);
+  const [lightbox, setLightbox] = React.useState<{ images: string[], index: number, downloadName: string } | null>(null);
+  const [comparedVersions, setComparedVersions] = React.useState<ImageVersion[] | null>(null);
+
+  const attachedImages = (message.attachments ?? []).filter(a => getAttachmentKind(a.mimeType) === 'image');
+
+  // Unique web sources, numbered as in the inline citations
+  const uniqueSources = React.useMemo(() => getCitedSources(message.groundingMetadata).sources, [message.groundingMetadata]);
+  const citedContent = React.useMemo(() => escapeCurrencyDollars(insertCitations(message.content, message.groundingMetadata)), [message.content, message.groundingMetadata]);
+  const searchQueries = message.groundingMetadata?.webSearchQueries ?? [];
+
+  // Stable overrides, so code blocks (and their diagrams) aren't remounted on every streamed chunk
+  const isStreaming = !!message.isStreaming;
+  const markdownComponents = React.useMemo<MarkdownOptions['components']>(() => ({
+    a({node, href, children, ...props}: any) {
+      const citation = /^#cite-(\d+)$/.exec(href || '');
+      const source = citation && uniqueSources[Number(citation[1]) - 1];
+      return source ? (
+        <Citation number={Number(citation![1])} source={source} />
+      ) : (
+        <a href={href} {...props}>{children}</a>
+      );
+    },
+    code({node, inline, className, children, ...props}: any) {
+      const match = /language-(\w+)/.exec(className || '');
+      const codeValue = String(children).replace(/\n$/, '');
 
-  // Extract unique web sources if they exist
-  const uniqueSources = React.useMemo(() => {
-    if (!message.groundingMetadata?.groundingChunks) return [];
-    
-    const chunks = message.groundingMetadata.groundingChunks;
-    const sources: GroundingWebSource[] = [];
-    const seenUris = new Set<string>();
-
-    chunks.forEach(chunk => {
-      if (chunk.web && !seenUris.has(chunk.web.uri)) {
-        seenUris.add(chunk.web.uri);
-        sources.push(chunk.web);
-      }
-    });
-    return sources;
-  }, [message.groundingMetadata]);
+      return !inline && match ? (
+        <CodeBlock language={match[1]} value={codeValue} isStreaming={isStreaming} />
+      ) : (
+        <code className={className} {...props}>
+          {children}
+        </code>
+      );
+    }
+  }), [uniqueSources, isStreaming]);
+
+  const isGrounded = uniqueSources.length > 0 || searchQueries.length > 0;
+  const webAccessLabel = !message.webTools || message.isStreaming ? '' : [
+    message.webTools.search === 'off' ? 'Sem pesquisa' : isGrounded ? 'Pesquisou na web' : message.webTools.search === 'on' ? 'Pesquisa solicitada' : '',
+    message.webTools.urlContext ? 'Leu links' : '',
+  ].filter(Boolean).join(' · ');
+
+  const startEditing = () => {
+    setEditContent(message.content);
+    setEditAttachments(message.attachments || []);
+    setIsEditing(true);
+  };
+
+  const handleSaveEdit = () => {
+    if ((!editContent.trim() && editAttachments.length === 0) || !onEdit) return;
+    onEdit(editContent, editAttachments);
+    setIsEditing(false);
+  };
 
   const handleCopyMessage = () => {
     navigator.clipboard.writeText(message.content);
@@ -186,11 +402,11 @@ export const ChatMessage: React.FC<ChatMessageProps> = ({ message }) => {
   };
 
   return (
-    <div className={`w-full group border-b ${
+    <div id={`message-${message.id}`} className={`w-full group border-b transition-shadow duration-500 ${
       isUser 
         ? 'bg-[#131316] border-white/5' // Destaque sutil para usuário
         : 'bg-transparent border-transparent' 
-    } message-fade-in`}>
+    } ${isHighlighted ? 'shadow-[inset_0_0_0_2px_rgba(59,130,246,0.5)]' : ''} message-fade-in`}>
       <div className="max-w-3xl mx-auto p-4 md:px-4 md:py-8 flex gap-4 md:gap-6 w-full">
         {/* Avatar */}
         <div className={`
@@ -210,77 +426,360 @@ export const ChatMessage: React.FC<ChatMessageProps> = ({ message }) => {
         {/* Content - Grid fixes horizontal overflow issues with flex items */}
         <div className="relative flex-1 min-w-0 grid grid-cols-1">
           <div className="flex items-center justify-between mb-1">
-             <div className="font-semibold text-sm text-gray-200">
-                {isUser ? 'Você' : 'Gemini'}
-            </div>
-            {!isUser && !message.isStreaming && !message.isError && (
-                <button 
-                  onClick={handleCopyMessage}
-                  className="opacity-0 group-hover:opacity-100 transition-opacity text-gray-500 hover:text-white p-1"
-                  title="Copiar mensagem inteira"
+             <div className="flex items-center gap-2">
+               <div className="font-semibold text-sm text-gray-200">
+                  {isUser ? 'Você' : 'Gemini'}
+               </div>
+               {/* Web access used for the answer */}
+               {webAccessLabel && (
+                 <span className="flex items-center gap-1 px-1.5 py-0.5 text-[10px] text-gray-500 bg-white/5 rounded-md" title="Acesso à web nesta resposta">
+                   <Globe size={10} />
+                   {webAccessLabel}
+                 </span>
+               )}
+             </div>
+            <div className="flex items-center gap-1">
+              {/* Token Usage */}
+              {message.usage && !message.isStreaming && (
+                <span
+                  className="opacity-0 group-hover:opacity-100 transition-opacity text-[11px] text-gray-500 tabular-nums mr-1 cursor-default"
+                  title={[
+                    `Entrada: ${message.usage.promptTokens}`,
+                    message.usage.cachedTokens ? `Em cache: ${message.usage.cachedTokens}` : '',
+                    `Saída: ${message.usage.outputTokens}`,
+                    message.usage.thinkingTokens ? `Raciocínio: ${message.usage.thinkingTokens}` : '',
+                  ].filter(Boolean).join(' · ')}
                 >
-                  {copied ? <Check size={14} /> : <Copy size={14} />}
-                </button>
-            )}
+                  {formatTokens(message.usage.promptTokens)} → {formatTokens(message.usage.outputTokens + (message.usage.thinkingTokens ?? 0))} tokens
+                  {usageCost !== undefined && usageCost > 0 && ` · ${formatCost(usageCost)}`}
+                </span>
+              )}
+
+              {/* Version Navigation */}
+              {siblingCount > 1 && onNavigateSibling && (
+                <div className="flex items-center text-xs text-gray-500 select-none">
+                  <button
+                    onClick={() => onNavigateSibling(-1)}
+                    disabled={siblingIndex === 0}
+                    className="p-1 hover:text-white disabled:opacity-30 disabled:hover:text-gray-500 transition-colors"
+                    title="Versão anterior"
+                  >
+                    <ChevronLeft size={14} />
+                  </button>
+                  <span className="tabular-nums">{siblingIndex + 1}/{siblingCount}</span>
+                  <button
+                    onClick={() => onNavigateSibling(1)}
+                    disabled={siblingIndex === siblingCount - 1}
+                    className="p-1 hover:text-white disabled:opacity-30 disabled:hover:text-gray-500 transition-colors"
+                    title="Próxima versão"
+                  >
+                    <ChevronRight size={14} />
+                  </button>
+                </div>
+              )}
+
+              {isUser && onEdit && !isEditing && (
+                  <button 
+                    onClick={startEditing}
+                    className="opacity-0 group-hover:opacity-100 transition-opacity text-gray-500 hover:text-white p-1"
+                    title="Editar mensagem"
+                  >
+                    <Pencil size={14} />
+                  </button>
+              )}
+
+              {!isUser && !message.isStreaming && onRegenerate && (
+                  <button 
+                    onClick={onRegenerate}
+                    className="opacity-0 group-hover:opacity-100 transition-opacity text-gray-500 hover:text-white p-1"
+                    title="Gerar nova resposta"
+                  >
+                    <RefreshCw size={14} />
+                  </button>
+              )}
+
+              {!isUser && !message.isStreaming && !message.isError && message.content && (
+                  <ReadAloudButton messageId={message.id} content={message.content} />
+              )}
+
+              {!isUser && !message.isStreaming && !message.isError && (
+                  <button 
+                    onClick={handleCopyMessage}
+                    className="opacity-0 group-hover:opacity-100 transition-opacity text-gray-500 hover:text-white p-1"
+                    title="Copiar mensagem inteira"
+                  >
+                    {copied ? <Check size={14} /> : <Copy size={14} />}
+                  </button>
+              )}
+            </div>
           </div>
           
+          {isEditing ? (
+            <div className="w-full">
+              {/* Editable Attachments */}
+              {editAttachments.length > 0 && (
+                <div className="flex flex-wrap gap-2 mb-3">
+                  {editAttachments.map((attachment, idx) => getAttachmentKind(attachment.mimeType) !== 'image' ? (
+                    <AttachmentChip
+                      key={idx}
+                      attachment={attachment}
+                      onRemove={() => setEditAttachments(prev => prev.filter((_, i) => i !== idx))}
+                    />
+                  ) : (
+                    <div key={idx} className="relative group/attachment">
+                      <div className="w-16 h-16 rounded-xl overflow-hidden border border-white/10 bg-black/20">
+                        <img src={attachment.data} alt={attachment.name} className="w-full h-full object-cover" />
+                      </div>
+                      <button
+                        onClick={() => setEditAttachments(prev => prev.filter((_, i) => i !== idx))}
+                        className="absolute -top-1.5 -right-1.5 bg-gray-800 text-white rounded-full p-0.5 border border-white/20 hover:bg-red-500 transition-colors shadow-sm"
+                        title="Remover anexo"
+                      >
+                        <X size={12} />
+                      </button>
+                    </div>
+                  ))}
+                </div>
+              )}
+
+              <textarea
+                value={editContent}
+                onChange={(e) => setEditContent(e.target.value)}
+                onKeyDown={(e) => {
+                  if (e.key === 'Enter' && !e.shiftKey) {
+                    e.preventDefault();
+                    handleSaveEdit();
+                  } else if (e.key === 'Escape') {
+                    setIsEditing(false);
+                  }
+                }}
+                autoFocus
+                rows={3}
+                className="w-full p-3 bg-[#1e1e21] border border-white/10 rounded-xl text-[0.95rem] text-gray-100 leading-relaxed resize-y focus:outline-none focus:ring-1 focus:ring-white/20"
+              />
+
+              <div className="flex justify-end gap-2 mt-2">
+                <button
+                  onClick={() => setIsEditing(false)}
+                  className="px-3 py-1.5 text-xs font-medium text-gray-300 hover:text-white bg-white/5 hover:bg-white/10 rounded-lg transition-colors"
+                >
+                  Cancelar
+                </button>
+                <button
+                  onClick={handleSaveEdit}
+                  disabled={!editContent.trim() && editAttachments.length === 0}
+                  className="px-3 py-1.5 text-xs font-medium text-black bg-white hover:bg-gray-200 rounded-lg transition-colors disabled:opacity-40 disabled:cursor-not-allowed"
+                >
+                  Salvar e enviar
+                </button>
+              </div>
+            </div>
+          ) : (
+          <>
+          {/* Reasoning */}
+          {message.thoughts && <ThoughtsPanel message={message} />}
+
+          {/* Tool Calls */}
+          {message.toolCalls && message.toolCalls.length > 0 && (
+            <div className="mb-4 space-y-1.5">
+              {message.toolCalls.map(call => <ToolCallStep key={call.id} call={call} />)}
+            </div>
+          )}
+
           <div className={`markdown-content text-[0.95rem] leading-7 w-full ${
             message.isError ? 'text-red-400' : 'text-gray-300 font-light'
           }`}>
-             {/* Model Generated Image */}
-             {message.image && (
-                <div className="mb-4 mt-1">
-                  <img 
-                    src={message.image} 
-                    alt="Conteúdo gerado" 
-                    className="rounded-xl border border-white/10 shadow-lg max-w-full md:max-w-md h-auto"
-                  />
+             {/* Model Generated Images */}
+             {message.images && message.images.length > 0 && (
+                <div className={`mb-4 mt-1 ${message.images.length > 1 ? 'grid grid-cols-2 gap-2 max-w-2xl' : ''}`}>
+                  {message.images.map((src, idx) => {
+                    const versions = !message.isStreaming ? getImageVersions?.(idx) ?? [] : [];
+                    return (
+                      <div key={idx} className="min-w-0">
+                        <div className="relative inline-block group/image">
+                          <img 
+                            src={src} 
+                            alt={`Imagem gerada ${idx + 1}`} 
+                            onClick={() => setLightbox({ images: message.images!, index: idx, downloadName: `imagem-gerada-${message.id}` })}
+                            className="rounded-xl border border-white/10 shadow-lg max-w-full md:max-w-md h-auto cursor-zoom-in"
+                          />
+                          <ImageContextBadge status={getImageContextStatus?.(`image-${idx}`)} />
+                          {!message.isStreaming && (onEditImage || versions.length > 1) && (
+                            <div className="absolute top-2 right-2 flex gap-1 opacity-0 group-hover/image:opacity-100 transition-opacity">
+                              {versions.length > 1 && (
+                                <button
+                                  onClick={() => setComparedVersions(versions)}
+                                  className="flex items-center gap-1.5 px-2 py-1 text-xs font-medium text-white bg-black/70 hover:bg-black/90 backdrop-blur-sm rounded-lg transition-colors"
+                                  title="Comparar com versões anteriores"
+                                >
+                                  <Columns2 size={12} /> Comparar
+                                </button>
+                              )}
+                              {onEditImage && (
+                                <button
+                                  onClick={() => onEditImage({ messageId: message.id, kind: 'generated', index: idx })}
+                                  className="flex items-center gap-1.5 px-2 py-1 text-xs font-medium text-white bg-black/70 hover:bg-black/90 backdrop-blur-sm rounded-lg transition-colors"
+                                  title="Anexar esta imagem ao próximo pedido para editá-la"
+                                >
+                                  <Wand2 size={12} /> Editar esta imagem
+                                </button>
+                              )}
+                            </div>
+                          )}
+                        </div>
+
+                        {/* Edit history: earlier versions can be edited again, branching the conversation */}
+                        {versions.length > 1 && (
+                          <div className="flex items-center gap-1.5 mt-2 overflow-x-auto">
+                            <span className="text-[11px] text-gray-500 mr-1 flex-shrink-0">Versões</span>
+                            {versions.map((version, i) => {
+                              const isCurrent = i === versions.length - 1;
+                              return (
+                                <button
+                                  key={i}
+                                  onClick={() => !isCurrent && onEditImage?.(version)}
+                                  disabled={isCurrent || !onEditImage}
+                                  className={`flex-shrink-0 w-10 h-10 rounded-md overflow-hidden border transition-colors ${
+                                    isCurrent ? 'border-blue-500/60 cursor-default' : 'border-white/10 hover:border-white/40'
+                                  }`}
+                                  title={isCurrent ? 'Versão atual' : `${i === 0 ? 'Original' : `Versão ${i + 1}`}: editar a partir desta versão`}
+                                >
+                                  <img src={version.dataUrl} alt={`Versão ${i + 1}`} className="w-full h-full object-cover" />
+                                </button>
+                              );
+                            })}
+                          </div>
+                        )}
+                      </div>
+                    );
+                  })}
                 </div>
              )}
 
-             {/* User Attachments (Input Images) */}
+             {/* User Attachments (images as thumbnails, other files as chips) */}
              {message.attachments && message.attachments.length > 0 && (
-                <div className="flex flex-wrap gap-2 mb-4">
-                    {message.attachments.map((src, idx) => (
-                        <div key={idx} className="relative w-32 h-32 md:w-40 md:h-40 rounded-xl overflow-hidden border border-white/10 bg-black/20">
-                            <img src={src} alt={`Anexo ${idx + 1}`} className="w-full h-full object-cover" />
-                        </div>
-                    ))}
+                <div className="flex flex-wrap items-start gap-2 mb-4">
+                    {message.attachments.map((attachment, idx) => {
+                        const kind = getAttachmentKind(attachment.mimeType);
+                        if (kind === 'image') {
+                            return (
+                                <div key={idx} className="relative w-32 h-32 md:w-40 md:h-40 rounded-xl overflow-hidden border border-white/10 bg-black/20 group/image">
+                                    <img
+                                        src={attachment.data}
+                                        alt={attachment.name}
+                                        onClick={() => setLightbox({
+                                            images: attachedImages.map(a => a.data),
+                                            index: attachedImages.indexOf(attachment),
+                                            downloadName: attachment.name.replace(/\.[^.]+$/, '')
+                                        })}
+                                        className="w-full h-full object-cover cursor-zoom-in"
+                                    />
+                                    <ImageContextBadge status={getImageContextStatus?.(idx)} />
+                                    {onEditImage && (
+                                        <button
+                                            onClick={() => onEditImage({ messageId: message.id, kind: 'attachment', index: idx })}
+                                            className="absolute top-1.5 right-1.5 p-1.5 text-white bg-black/70 hover:bg-black/90 backdrop-blur-sm rounded-lg opacity-0 group-hover/image:opacity-100 transition-opacity"
+                                            title="Editar esta imagem"
+                                        >
+                                            <Wand2 size={12} />
+                                        </button>
+                                    )}
+                                </div>
+                            );
+                        }
+                        return (
+                            <div key={idx} className="flex flex-col gap-1.5">
+                                <div className="relative">
+                                    <AttachmentChip attachment={attachment} isDownloadable />
+                                    <ImageContextBadge status={getImageContextStatus?.(idx)} position="top-1.5 right-1.5" />
+                                </div>
+                                {kind === 'audio' && <audio controls src={attachment.data} className="w-48 h-8" />}
+                            </div>
+                        );
+                    })}
                 </div>
              )}
 
+             {/* Structured answers are raw JSON while streaming, then a data view */}
+             {message.structuredOutput ? (
+               message.isStreaming ? (
+                 <CodeBlock language="json" value={message.content} />
+               ) : (
+                 <StructuredView content={message.content} result={message.structuredOutput} downloadName={`resposta-${message.id}`} isIncomplete={message.isInterrupted} />
+               )
+             ) : (
              <ReactMarkdown
-               components={{
-                 code({node, inline, className, children, ...props}: any) {
-                   const match = /language-(\w+)/.exec(className || '');
-                   const codeValue = String(children).replace(/\n$/, '');
-
-                   return !inline && match ? (
-                     <CodeBlock language={match[1]} value={codeValue} />
-                   ) : (
-                     <code className={className} {...props}>
-                       {children}
-                     </code>
-                   );
-                 }
-               }}
+               remarkPlugins={remarkPlugins}
+               rehypePlugins={rehypePlugins}
+               components={markdownComponents}
              >
-               {message.content}
+               {citedContent}
              </ReactMarkdown>
+             )}
              
              {/* Cursor for streaming */}
              {message.isStreaming && (
                <span className="inline-block w-1.5 h-4 ml-1 bg-blue-400 animate-pulse align-middle rounded-full" />
              )}
           </div>
+          </>
+          )}
+
+          {/* Automatic Retry Notice */}
+          {message.isStreaming && message.retryAttempt && (
+            <div className="mt-3 flex items-center gap-1.5 text-xs text-amber-300/80">
+              <Loader2 size={12} className="animate-spin" />
+              <span>Falha temporária. Tentando novamente ({message.retryAttempt}/{MAX_RETRIES})...</span>
+            </div>
+          )}
+
+          {/* Retry Action */}
+          {message.isError && onRetry && (
+            <button
+              onClick={onRetry}
+              className="mt-3 flex items-center gap-1.5 px-3 py-1.5 text-xs font-medium text-gray-200 bg-white/5 hover:bg-white/10 border border-white/10 rounded-lg transition-colors"
+            >
+              <RotateCw size={12} />
+              Tentar novamente
+            </button>
+          )}
+
+          {/* Interrupted Notice */}
+          {message.isInterrupted && (
+            <div className="mt-3 flex items-center gap-1.5 text-xs text-gray-500">
+              <CircleStop size={12} />
+              <span>Resposta interrompida</span>
+            </div>
+          )}
 
           {/* Sources Section */}
-          {uniqueSources.length > 0 && (
+          {(uniqueSources.length > 0 || searchQueries.length > 0) && (
             <div className="mt-6 pt-4 border-t border-white/5 animate-in fade-in duration-500">
+               {/* Searches the model made */}
+               {searchQueries.length > 0 && (
+                 <div className="flex flex-wrap items-center gap-1.5 mb-4">
+                   <Search size={12} className="text-gray-500 mr-0.5" />
+                   {searchQueries.map((query, idx) => (
+                     <a
+                       key={idx}
+                       href={`https://www.google.com/search?q=${encodeURIComponent(query)}`}
+                       target="_blank"
+                       rel="noopener noreferrer"
+                       className="px-2 py-0.5 text-xs text-gray-400 hover:text-gray-200 bg-white/5 hover:bg-white/10 rounded-full transition-colors no-underline"
+                       title="Pesquisa feita pelo modelo"
+                     >
+                       {query}
+                     </a>
+                   ))}
+                 </div>
+               )}
+
+               {uniqueSources.length > 0 && (
                <div className="flex items-center gap-2 mb-3 text-xs font-medium text-gray-500 uppercase tracking-wider">
                   <Globe size={12} />
                   <span>Fontes</span>
                </div>
+               )}
                
                <div className="grid grid-cols-1 sm:grid-cols-2 md:grid-cols-3 gap-2">
                  {/* Show first 3 sources, or all if expanded */}
@@ -306,6 +805,23 @@ export const ChatMessage: React.FC<ChatMessageProps> = ({ message }) => {
           )}
         </div>
       </div>
+
+      {comparedVersions && (
+        <ImageCompare
+          versions={comparedVersions}
+          onEditVersion={onEditImage ? (version) => { setComparedVersions(null); onEditImage(version); } : undefined}
+          onClose={() => setComparedVersions(null)}
+        />
+      )}
+
+      {lightbox && (
+        <ImageLightbox
+          images={lightbox.images}
+          initialIndex={lightbox.index}
+          downloadName={lightbox.downloadName}
+          onClose={() => setLightbox(null)}
+        />
+      )}
     </div>
   );
 };
\ No newline at end of file
@@ -0,0 +1,120 @@
+import React, { useCallback, useEffect, useRef, useState } from 'react';
+import { Gauge, Loader2, Trash2, Wand2 } from 'lucide-react';
+import { ContextSummary } from '../types';
+import { useClickOutside } from '../hooks/useClickOutside';
+import { formatTokens } from '../services/usageService';
+
+interface ContextMeterProps {
+  tokens: number | null; // Tokens do histórico atual (null enquanto conta)
+  contextWindow: number;
+  threshold: number; // Fração da janela que dispara o resumo automático
+  summary?: ContextSummary; // Resumo aplicado ao ramo atual
+  isSummarizing: boolean;
+  canSummarize: boolean;
+  isOpen: boolean;
+  onToggle: (isOpen: boolean) => void;
+  onSummarize: () => void;
+  onUpdateSummary: (content: string) => void;
+  onRemoveSummary: () => void;
+}
+
+export const ContextMeter: React.FC<ContextMeterProps> = ({
+  tokens,
+  contextWindow,
+  threshold,
+  summary,
+  isSummarizing,
+  canSummarize,
+  isOpen,
+  onToggle,
+  onSummarize,
+  onUpdateSummary,
+  onRemoveSummary
+}) => {
+  const [draft, setDraft] = useState(summary?.content ?? '');
+  const panelRef = useRef<HTMLDivElement>(null);
+
+  const close = useCallback(() => onToggle(false), [onToggle]);
+  useClickOutside(panelRef, close);
+
+  // Reset the editor when a new summary arrives
+  useEffect(() => {
+    setDraft(summary?.content ?? '');
+  }, [summary?.content]);
+
+  const usage = tokens === null ? 0 : Math.min(1, tokens / contextWindow);
+  const barColor = usage >= threshold ? 'bg-red-500' : usage >= threshold * 0.75 ? 'bg-amber-400' : 'bg-blue-500';
+
+  return (
+    <div className="relative" ref={panelRef}>
+      <button
+        onClick={() => onToggle(!isOpen)}
+        className="flex items-center gap-2 px-2.5 py-1.5 rounded-lg hover:bg-[#1f1f23] transition-colors text-xs text-gray-400 hover:text-gray-200"
+        title="Uso da janela de contexto"
+      >
+        {isSummarizing ? <Loader2 size={14} className="animate-spin" /> : <Gauge size={14} />}
+        <div className="hidden sm:block w-16 h-1.5 bg-white/10 rounded-full overflow-hidden">
+          <div className={`h-full ${barColor} transition-all duration-300`} style={{ width: `${usage * 100}%` }} />
+        </div>
+        <span className="tabular-nums">{tokens === null ? '…' : formatTokens(tokens)}</span>
+      </button>
+
+      {isOpen && (
+        <div className="absolute top-full left-0 mt-2 w-80 p-4 bg-[#18181b] border border-white/10 rounded-xl shadow-xl animate-in fade-in zoom-in-95 duration-100 origin-top-left z-50 space-y-4">
+          <div>
+            <div className="flex items-baseline justify-between text-sm">
+              <span className="font-medium text-gray-200">Janela de contexto</span>
+              <span className="text-xs text-gray-400 tabular-nums">
+                {tokens === null ? 'Contando...' : `${formatTokens(tokens)} / ${formatTokens(contextWindow)} (${Math.round(usage * 100)}%)`}
+              </span>
+            </div>
+            <div className="mt-2 h-1.5 bg-white/10 rounded-full overflow-hidden">
+              <div className={`h-full ${barColor}`} style={{ width: `${usage * 100}%` }} />
+            </div>
+            <p className="text-xs text-gray-500 mt-2 leading-relaxed">
+              Ao passar de {Math.round(threshold * 100)}%, as mensagens antigas são resumidas automaticamente e as mais recentes continuam completas.
+            </p>
+          </div>
+
+          {summary ? (
+            <div>
+              <label className="block text-xs font-medium text-gray-400 mb-1.5">Resumo enviado no lugar das mensagens antigas</label>
+              <textarea
+                value={draft}
+                onChange={(e) => setDraft(e.target.value)}
+                rows={8}
+                className="w-full px-3 py-2 text-xs bg-white/5 border border-white/10 focus:border-white/20 rounded-lg text-gray-200 leading-relaxed resize-y focus:outline-none"
+              />
+              <div className="flex items-center justify-between mt-2">
+                <button
+                  onClick={onRemoveSummary}
+                  className="flex items-center gap-1.5 text-xs text-red-400 hover:text-red-300 transition-colors"
+                >
+                  <Trash2 size={12} /> Remover resumo
+                </button>
+                <button
+                  onClick={() => onUpdateSummary(draft.trim())}
+                  disabled={!draft.trim() || draft === summary.content}
+                  className="px-3 py-1.5 text-xs font-medium text-black bg-white hover:bg-gray-200 rounded-lg transition-colors disabled:opacity-40 disabled:cursor-not-allowed"
+                >
+                  Salvar resumo
+                </button>
+              </div>
+            </div>
+          ) : (
+            <p className="text-xs text-gray-500">Nenhuma mensagem foi resumida nesta conversa.</p>
+          )}
+
+          <button
+            onClick={onSummarize}
+            disabled={!canSummarize || isSummarizing}
+            className="w-full flex items-center justify-center gap-2 px-3 py-2 text-xs font-medium text-gray-200 bg-white/5 hover:bg-white/10 rounded-lg transition-colors disabled:opacity-40 disabled:cursor-not-allowed"
+          >
+            {isSummarizing ? <Loader2 size={12} className="animate-spin" /> : <Wand2 size={12} />}
+            {isSummarizing ? 'Resumindo...' : 'Resumir mensagens antigas agora'}
+          </button>
+        </div>
+      )}
+    </div>
+  );
+};
@@ -0,0 +1,77 @@
+import React, { useEffect, useState } from 'react';
+import { createPortal } from 'react-dom';
+import { Wand2, X } from 'lucide-react';
+import { ImageVersion } from '../utils/imageEdits';
+
+interface ImageCompareProps {
+  versions: ImageVersion[]; // Da mais antiga para a mais recente
+  onEditVersion?: (version: ImageVersion) => void;
+  onClose: () => void;
+}
+
+// Side-by-side view of two versions of an edited image
+export const ImageCompare: React.FC<ImageCompareProps> = ({ versions, onEditVersion, onClose }) => {
+  const [beforeIndex, setBeforeIndex] = useState(Math.max(0, versions.length - 2));
+  const [afterIndex, setAfterIndex] = useState(versions.length - 1);
+
+  useEffect(() => {
+    const handleKeyDown = (e: KeyboardEvent) => {
+      if (e.key === 'Escape') onClose();
+    };
+    document.addEventListener('keydown', handleKeyDown);
+    return () => document.removeEventListener('keydown', handleKeyDown);
+  }, [onClose]);
+
+  const renderPane = (label: string, index: number, onSelect: (index: number) => void) => {
+    const version = versions[index];
+    return (
+      <div className="flex-1 min-w-0 flex flex-col gap-3">
+        <div className="flex items-center justify-between gap-2">
+          <span className="text-xs font-semibold text-gray-400 uppercase tracking-wider">{label}</span>
+          <select
+            value={index}
+            onChange={(e) => onSelect(Number(e.target.value))}
+            className="px-2 py-1 text-xs bg-white/5 border border-white/10 rounded-lg text-gray-200 focus:outline-none"
+          >
+            {versions.map((_, i) => (
+              <option key={i} value={i} className="bg-[#18181b]">
+                {i === 0 ? 'Original' : `Versão ${i + 1}`}
+              </option>
+            ))}
+          </select>
+        </div>
+        <div className="flex-1 min-h-0 flex items-center justify-center rounded-xl bg-black/30 border border-white/5 p-2">
+          <img src={version.dataUrl} alt={label} className="max-w-full max-h-full object-contain rounded-lg" />
+        </div>
+        <p className="text-xs text-gray-400 line-clamp-2 min-h-[2rem]" title={version.prompt}>
+          {version.prompt || <span className="italic text-gray-600">Sem descrição</span>}
+        </p>
+        {onEditVersion && (
+          <button
+            onClick={() => onEditVersion(version)}
+            className="self-start flex items-center gap-1.5 px-3 py-1.5 text-xs font-medium text-gray-200 bg-white/5 hover:bg-white/10 rounded-lg transition-colors"
+          >
+            <Wand2 size={12} /> Editar a partir desta versão
+          </button>
+        )}
+      </div>
+    );
+  };
+
+  // Rendered on the body so the fixed overlay isn't trapped by animated message rows
+  return createPortal(
+    <div className="fixed inset-0 z-[60] flex flex-col bg-black/90 backdrop-blur-sm animate-in fade-in duration-150">
+      <div className="flex items-center justify-between px-4 py-3">
+        <span className="text-sm font-medium text-gray-200">Comparar versões</span>
+        <button onClick={onClose} className="p-2 text-gray-300 hover:text-white hover:bg-white/10 rounded-lg transition-colors" title="Fechar">
+          <X size={18} />
+        </button>
+      </div>
+      <div className="flex-1 min-h-0 flex flex-col md:flex-row gap-4 px-4 pb-4">
+        {renderPane('Antes', beforeIndex, setBeforeIndex)}
+        {renderPane('Depois', afterIndex, setAfterIndex)}
+      </div>
+    </div>,
+    document.body
+  );
+};
@@ -0,0 +1,138 @@
+import React, { useEffect, useState } from 'react';
+import { createPortal } from 'react-dom';
+import { ChevronLeft, ChevronRight, Download, X, ZoomIn, ZoomOut } from 'lucide-react';
+
+interface ImageLightboxProps {
+  images: string[];
+  initialIndex: number;
+  downloadName: string; // Nome base dos arquivos baixados
+  onClose: () => void;
+}
+
+const MIN_ZOOM = 0.5;
+const MAX_ZOOM = 4;
+const ZOOM_STEP = 0.5;
+
+// Images may come as JPEG or WebP; downloads are always converted to PNG
+const toPngDataUrl = (src: string): Promise<string> => {
+  return new Promise((resolve, reject) => {
+    const img = new Image();
+    img.onerror = () => reject(new Error('Failed to load image'));
+    img.onload = () => {
+      const canvas = document.createElement('canvas');
+      canvas.width = img.naturalWidth;
+      canvas.height = img.naturalHeight;
+      const ctx = canvas.getContext('2d');
+      if (!ctx) return reject(new Error('Canvas not available'));
+
+      ctx.drawImage(img, 0, 0);
+      resolve(canvas.toDataURL('image/png'));
+    };
+    img.src = src;
+  });
+};
+
+export const ImageLightbox: React.FC<ImageLightboxProps> = ({ images, initialIndex, downloadName, onClose }) => {
+  const [index, setIndex] = useState(initialIndex);
+  const [zoom, setZoom] = useState(1);
+
+  const changeZoom = (delta: number) => {
+    setZoom(prev => Math.min(MAX_ZOOM, Math.max(MIN_ZOOM, prev + delta)));
+  };
+
+  const goTo = (next: number) => {
+    if (next < 0 || next >= images.length) return;
+    setIndex(next);
+    setZoom(1);
+  };
+
+  useEffect(() => {
+    const handleKeyDown = (e: KeyboardEvent) => {
+      if (e.key === 'Escape') onClose();
+      else if (e.key === 'ArrowLeft') goTo(index - 1);
+      else if (e.key === 'ArrowRight') goTo(index + 1);
+      else if (e.key === '+' || e.key === '=') changeZoom(ZOOM_STEP);
+      else if (e.key === '-') changeZoom(-ZOOM_STEP);
+    };
+    document.addEventListener('keydown', handleKeyDown);
+    return () => document.removeEventListener('keydown', handleKeyDown);
+  });
+
+  const handleDownload = async () => {
+    try {
+      const link = document.createElement('a');
+      link.href = await toPngDataUrl(images[index]);
+      link.download = images.length > 1 ? `${downloadName}-${index + 1}.png` : `${downloadName}.png`;
+      link.click();
+    } catch (e) {
+      console.error("Failed to download image", e);
+    }
+  };
+
+  const toolbarButtonClass = "p-2 text-gray-300 hover:text-white hover:bg-white/10 rounded-lg transition-colors disabled:opacity-30 disabled:hover:bg-transparent";
+
+  // Rendered on the body: message rows are animated with transforms, which would trap a fixed overlay
+  return createPortal(
+    <div className="fixed inset-0 z-[60] flex flex-col bg-black/90 backdrop-blur-sm animate-in fade-in duration-150">
+      {/* Toolbar */}
+      <div className="flex items-center justify-between px-4 py-3">
+        <span className="text-sm text-gray-400 tabular-nums">
+          {images.length > 1 ? `${index + 1} / ${images.length}` : ''}
+        </span>
+        <div className="flex items-center gap-1">
+          <button onClick={() => changeZoom(-ZOOM_STEP)} disabled={zoom <= MIN_ZOOM} className={toolbarButtonClass} title="Diminuir zoom">
+            <ZoomOut size={18} />
+          </button>
+          <button onClick={() => setZoom(1)} className="px-2 py-1 text-xs text-gray-300 hover:text-white tabular-nums" title="Ajustar à tela">
+            {Math.round(zoom * 100)}%
+          </button>
+          <button onClick={() => changeZoom(ZOOM_STEP)} disabled={zoom >= MAX_ZOOM} className={toolbarButtonClass} title="Aumentar zoom">
+            <ZoomIn size={18} />
+          </button>
+          <button onClick={handleDownload} className={toolbarButtonClass} title="Baixar como PNG">
+            <Download size={18} />
+          </button>
+          <button onClick={onClose} className={toolbarButtonClass} title="Fechar">
+            <X size={18} />
+          </button>
+        </div>
+      </div>
+
+      {/* Image */}
+      <div className="relative flex-1 min-h-0 overflow-auto" onClick={onClose}>
+        {/* Auto margins center the image but, unlike justify-center, keep all of it scrollable when zoomed */}
+        <div className="min-w-full min-h-full flex p-4">
+          <img
+            src={images[index]}
+            alt={`Imagem ${index + 1}`}
+            onClick={(e) => e.stopPropagation()}
+            className={`m-auto rounded-lg shadow-2xl ${zoom === 1 ? 'max-w-full max-h-[calc(100vh-6rem)] object-contain' : 'max-w-none'}`}
+            style={zoom === 1 ? undefined : { width: `${zoom * 100}%` }}
+          />
+        </div>
+
+        {images.length > 1 && (
+          <>
+            <button
+              onClick={(e) => { e.stopPropagation(); goTo(index - 1); }}
+              disabled={index === 0}
+              className="fixed left-4 top-1/2 -translate-y-1/2 p-2 bg-black/60 text-white rounded-full hover:bg-black/80 disabled:opacity-30 transition-colors"
+              title="Imagem anterior"
+            >
+              <ChevronLeft size={22} />
+            </button>
+            <button
+              onClick={(e) => { e.stopPropagation(); goTo(index + 1); }}
+              disabled={index === images.length - 1}
+              className="fixed right-4 top-1/2 -translate-y-1/2 p-2 bg-black/60 text-white rounded-full hover:bg-black/80 disabled:opacity-30 transition-colors"
+              title="Próxima imagem"
+            >
+              <ChevronRight size={22} />
+            </button>
+          </>
+        )}
+      </div>
+    </div>,
+    document.body
+  );
+};
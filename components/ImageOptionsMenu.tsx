@@ -0,0 +1,90 @@
+import React, { useCallback, useRef, useState } from 'react';
+import { RectangleHorizontal } from 'lucide-react';
+import { AIModel, ImageAspectRatio, ImageGenerationOptions } from '../types';
+import { useClickOutside } from '../hooks/useClickOutside';
+
+const ASPECT_RATIOS: ImageAspectRatio[] = ['1:1', '3:4', '4:3', '9:16', '16:9', '2:3', '3:2', '4:5', '5:4', '21:9'];
+
+interface ImageOptionsMenuProps {
+  model: AIModel;
+  options: ImageGenerationOptions;
+  onChange: (options: ImageGenerationOptions) => void;
+}
+
+// Small rectangle with the proportions of an aspect ratio
+const RatioShape: React.FC<{ ratio: ImageAspectRatio }> = ({ ratio }) => {
+  const [w, h] = ratio.split(':').map(Number);
+  const scale = 16 / Math.max(w, h);
+  return (
+    <div className="h-4 flex items-center justify-center">
+      <div className="border-[1.5px] border-current rounded-[2px]" style={{ width: w * scale, height: h * scale }} />
+    </div>
+  );
+};
+
+export const ImageOptionsMenu: React.FC<ImageOptionsMenuProps> = ({ model, options, onChange }) => {
+  const [isOpen, setIsOpen] = useState(false);
+  const menuRef = useRef<HTMLDivElement>(null);
+
+  const close = useCallback(() => setIsOpen(false), []);
+  useClickOutside(menuRef, close);
+
+  const sizes = model.imageSizes ?? [];
+
+  const optionClass = (isSelected: boolean) => `flex flex-col items-center gap-1 py-2 text-[11px] rounded-lg border transition-colors ${
+    isSelected ? 'bg-blue-500/10 border-blue-500/30 text-blue-300' : 'border-white/5 text-gray-400 hover:bg-white/5 hover:text-gray-200'
+  }`;
+
+  return (
+    <div className="relative" ref={menuRef}>
+      <button
+        onClick={() => setIsOpen(!isOpen)}
+        className="flex items-center gap-2 px-2.5 py-1.5 rounded-lg hover:bg-[#1f1f23] transition-colors text-xs text-gray-400 hover:text-gray-200"
+        title="Formato das imagens geradas"
+      >
+        <RectangleHorizontal size={14} />
+        <span className="tabular-nums">
+          {options.aspectRatio}{sizes.includes(options.imageSize) ? ` · ${options.imageSize}` : ''}
+        </span>
+      </button>
+
+      {isOpen && (
+        <div className="absolute top-full left-0 mt-2 w-72 p-4 bg-[#18181b] border border-white/10 rounded-xl shadow-xl animate-in fade-in zoom-in-95 duration-100 origin-top-left z-50 space-y-4">
+          <div>
+            <div className="text-xs font-medium text-gray-400 mb-2">Proporção</div>
+            <div className="grid grid-cols-5 gap-1.5">
+              {ASPECT_RATIOS.map(ratio => (
+                <button
+                  key={ratio}
+                  onClick={() => onChange({ ...options, aspectRatio: ratio })}
+                  className={optionClass(options.aspectRatio === ratio)}
+                >
+                  <RatioShape ratio={ratio} />
+                  {ratio}
+                </button>
+              ))}
+            </div>
+          </div>
+
+          {sizes.length > 0 && (
+            <div>
+              <div className="text-xs font-medium text-gray-400 mb-2">Resolução</div>
+              <div className="grid grid-cols-3 gap-1.5">
+                {sizes.map(size => (
+                  <button
+                    key={size}
+                    onClick={() => onChange({ ...options, imageSize: size })}
+                    className={optionClass(options.imageSize === size)}
+                  >
+                    {size}
+                  </button>
+                ))}
+              </div>
+              <p className="text-[11px] text-gray-500 mt-2 leading-relaxed">Resoluções maiores custam mais e demoram mais para gerar.</p>
+            </div>
+          )}
+        </div>
+      )}
+    </div>
+  );
+};
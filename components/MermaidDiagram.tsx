@@ -0,0 +1,92 @@
+import React, { useEffect, useState } from 'react';
+import type { Mermaid } from 'mermaid';
+
+interface MermaidDiagramProps {
+  code: string;
+  isStreaming?: boolean;
+  fallback: React.ReactNode; // Mostrado enquanto ainda não há um diagrama válido
+}
+
+// Waits for a pause in the stream before parsing, so a diagram isn't rendered on every chunk
+const RENDER_DELAY_MS = 250;
+
+// Mermaid is large, so it's only downloaded the first time a diagram shows up
+let mermaidPromise: Promise<Mermaid> | null = null;
+const loadMermaid = () => {
+  if (!mermaidPromise) {
+    mermaidPromise = import('mermaid').then(({ default: mermaid }) => {
+      mermaid.initialize({ startOnLoad: false, theme: 'dark', securityLevel: 'strict', fontFamily: 'Inter, sans-serif' });
+      return mermaid;
+    });
+  }
+  return mermaidPromise;
+};
+
+// Rendered SVGs by source, so a block that remounts (e.g. when the stream ends) shows up at once
+const svgCache = new Map<string, string>();
+const MAX_CACHED_DIAGRAMS = 50;
+let diagramCount = 0;
+
+/**
+ * Renders a mermaid code block as an SVG diagram.
+ * While streaming, partial or invalid source keeps the last diagram that
+ * rendered (or the fallback) on screen; errors only show once the message is complete.
+ */
+export const MermaidDiagram: React.FC<MermaidDiagramProps> = ({ code, isStreaming, fallback }) => {
+  const [svg, setSvg] = useState<string | null>(() => svgCache.get(code) ?? null);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    const cached = svgCache.get(code);
+    if (cached) {
+      setSvg(cached);
+      setError(null);
+      return;
+    }
+
+    let cancelled = false;
+    const timeout = setTimeout(async () => {
+      try {
+        const mermaid = await loadMermaid();
+        // Parsing first keeps mermaid from leaving error diagrams in the page
+        if (!(await mermaid.parse(code, { suppressErrors: true }))) {
+          if (!cancelled) setError('Sintaxe do diagrama inválida.');
+          return;
+        }
+        const { svg: rendered } = await mermaid.render(`mermaid-diagram-${++diagramCount}`, code);
+        svgCache.set(code, rendered);
+        if (svgCache.size > MAX_CACHED_DIAGRAMS) svgCache.delete(svgCache.keys().next().value!);
+        if (!cancelled) {
+          setSvg(rendered);
+          setError(null);
+        }
+      } catch (err) {
+        if (!cancelled) setError(err instanceof Error ? err.message : 'Não foi possível renderizar o diagrama.');
+      }
+    }, isStreaming ? RENDER_DELAY_MS : 0);
+
+    return () => {
+      cancelled = true;
+      clearTimeout(timeout);
+    };
+  }, [code, isStreaming]);
+
+  // Once the message is complete, a diagram from an earlier, partial version would be misleading
+  const hasFailed = !!error && !isStreaming;
+
+  return (
+    <>
+      {svg && !hasFailed ? (
+        <div
+          className="flex justify-center p-6 overflow-x-auto [&_svg]:max-w-full [&_svg]:h-auto"
+          dangerouslySetInnerHTML={{ __html: svg }}
+        />
+      ) : fallback}
+      {hasFailed && (
+        <p className="px-4 py-2 text-xs text-red-300/90 border-t border-white/5 truncate" title={error!}>
+          {error}
+        </p>
+      )}
+    </>
+  );
+};
@@ -0,0 +1,24 @@
+import React from 'react';
+import { Sparkles, Code, Languages, PenTool, Bot, BrainCircuit, GraduationCap, Briefcase, Palette, Scale, Terminal, FlaskConical, Lightbulb } from 'lucide-react';
+
+// Icons a persona can use, keyed by the value stored in `Persona.icon`
+export const PERSONA_ICONS: Record<string, React.ComponentType<{ size?: number, className?: string }>> = {
+  sparkles: Sparkles,
+  code: Code,
+  languages: Languages,
+  pen: PenTool,
+  bot: Bot,
+  brain: BrainCircuit,
+  graduation: GraduationCap,
+  briefcase: Briefcase,
+  palette: Palette,
+  scale: Scale,
+  terminal: Terminal,
+  flask: FlaskConical,
+  lightbulb: Lightbulb,
+};
+
+export const PersonaIcon: React.FC<{ icon: string, size?: number, className?: string }> = ({ icon, size = 16, className }) => {
+  const Icon = PERSONA_ICONS[icon] || Bot;
+  return <Icon size={size} className={className} />;
+};
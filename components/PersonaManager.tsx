@@ -0,0 +1,255 @@
+import React, { useState, useRef } from 'react';
+import { X, Plus, Copy, Trash2, Download, Upload, Lock } from 'lucide-react';
+import { Persona, AIModel } from '../types';
+import { PersonaIcon, PERSONA_ICONS } from './PersonaIcon';
+import { createPersona, exportPersonas, parsePersonasFile } from '../services/personaService';
+
+interface PersonaManagerProps {
+  builtInPersonas: Persona[];
+  customPersonas: Persona[];
+  models: AIModel[];
+  onSave: (customPersonas: Persona[]) => void;
+  onClose: () => void;
+}
+
+export const PersonaManager: React.FC<PersonaManagerProps> = ({ builtInPersonas, customPersonas, models, onSave, onClose }) => {
+  const [drafts, setDrafts] = useState<Persona[]>(customPersonas);
+  const [selectedId, setSelectedId] = useState<string>(customPersonas[0]?.id ?? builtInPersonas[0].id);
+  const [importError, setImportError] = useState('');
+  const importInputRef = useRef<HTMLInputElement>(null);
+
+  const allPersonas = [...builtInPersonas, ...drafts];
+  const selected = allPersonas.find(p => p.id === selectedId) ?? builtInPersonas[0];
+  const isReadOnly = !!selected.isBuiltIn;
+
+  const updateSelected = (changes: Partial<Persona>) => {
+    setDrafts(prev => prev.map(p => (p.id === selected.id ? { ...p, ...changes } : p)));
+  };
+
+  const addPersona = (base?: Persona) => {
+    const persona = base
+      ? { ...base, id: createPersona().id, name: `${base.name} (cópia)`, isBuiltIn: undefined }
+      : createPersona();
+    setDrafts(prev => [...prev, persona]);
+    setSelectedId(persona.id);
+  };
+
+  const deleteSelected = () => {
+    setDrafts(prev => prev.filter(p => p.id !== selected.id));
+    setSelectedId(builtInPersonas[0].id);
+  };
+
+  const handleExport = () => {
+    const url = URL.createObjectURL(new Blob([exportPersonas(drafts)], { type: 'application/json' }));
+    const link = document.createElement('a');
+    link.href = url;
+    link.download = 'personas.json';
+    link.click();
+    URL.revokeObjectURL(url);
+  };
+
+  const handleImport = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = '';
+    if (!file) return;
+
+    try {
+      const imported = parsePersonasFile(await file.text(), new Set(allPersonas.map(p => p.id)));
+      setDrafts(prev => [...prev, ...imported]);
+      setImportError('');
+      if (imported.length > 0) setSelectedId(imported[0].id);
+    } catch (error) {
+      setImportError(error instanceof Error ? error.message : "Não foi possível importar o arquivo.");
+    }
+  };
+
+  const handleSave = () => {
+    onSave(drafts.map(p => ({ ...p, name: p.name.trim() || 'Sem nome' })));
+    onClose();
+  };
+
+  const labelClass = "block text-xs font-medium text-gray-400 mb-1.5";
+  const inputClass = "w-full px-3 py-2 text-sm bg-white/5 border border-white/10 focus:border-white/20 rounded-lg text-gray-100 placeholder-gray-500 focus:outline-none transition-colors disabled:opacity-60";
+
+  return (
+    <div className="fixed inset-0 z-50 flex items-center justify-center p-4 bg-black/60 backdrop-blur-sm" onClick={onClose}>
+      <div
+        onClick={(e) => e.stopPropagation()}
+        className="w-full max-w-3xl max-h-[90vh] flex flex-col bg-[#18181b] border border-white/10 rounded-2xl shadow-2xl animate-in fade-in zoom-in-95 duration-150"
+      >
+        {/* Header */}
+        <div className="flex items-center justify-between px-6 py-4 border-b border-white/5">
+          <h2 className="text-lg font-semibold text-white">Personas</h2>
+          <div className="flex items-center gap-1">
+            <input type="file" accept="application/json,.json" ref={importInputRef} className="hidden" onChange={handleImport} />
+            <button onClick={() => importInputRef.current?.click()} className="p-1.5 text-gray-400 hover:text-white rounded-lg hover:bg-white/5 transition-colors" title="Importar personas (JSON)">
+              <Upload size={16} />
+            </button>
+            <button
+              onClick={handleExport}
+              disabled={drafts.length === 0}
+              className="p-1.5 text-gray-400 hover:text-white rounded-lg hover:bg-white/5 transition-colors disabled:opacity-30"
+              title="Exportar personas personalizadas"
+            >
+              <Download size={16} />
+            </button>
+            <button onClick={onClose} className="p-1.5 text-gray-400 hover:text-white rounded-lg hover:bg-white/5 transition-colors" title="Fechar">
+              <X size={18} />
+            </button>
+          </div>
+        </div>
+
+        {importError && (
+          <div className="mx-6 mt-4 p-2.5 text-xs text-red-300 bg-red-500/10 border border-red-500/30 rounded-lg">{importError}</div>
+        )}
+
+        <div className="flex flex-1 min-h-0">
+          {/* Persona List */}
+          <div className="w-56 flex-shrink-0 border-r border-white/5 p-3 overflow-y-auto space-y-1">
+            {allPersonas.map(persona => (
+              <button
+                key={persona.id}
+                onClick={() => setSelectedId(persona.id)}
+                className={`w-full flex items-center gap-2.5 px-3 py-2 text-sm rounded-lg text-left transition-colors ${
+                  persona.id === selected.id ? 'bg-white/10 text-white' : 'text-gray-400 hover:bg-white/5 hover:text-gray-200'
+                }`}
+              >
+                <PersonaIcon icon={persona.icon} size={14} className="flex-shrink-0" />
+                <span className="truncate flex-1">{persona.name}</span>
+                {persona.isBuiltIn && <Lock size={10} className="flex-shrink-0 text-gray-600" />}
+              </button>
+            ))}
+            <button
+              onClick={() => addPersona()}
+              className="w-full flex items-center gap-2.5 px-3 py-2 text-sm text-gray-400 hover:text-white rounded-lg hover:bg-white/5 transition-colors"
+            >
+              <Plus size={14} /> Nova persona
+            </button>
+          </div>
+
+          {/* Editor */}
+          <div className="flex-1 p-6 overflow-y-auto space-y-5">
+            {isReadOnly && (
+              <div className="flex items-center justify-between gap-3 p-3 text-xs text-gray-400 bg-white/5 rounded-lg">
+                <span>Personas nativas não podem ser editadas.</span>
+                <button onClick={() => addPersona(selected)} className="flex items-center gap-1.5 text-gray-200 hover:text-white">
+                  <Copy size={12} /> Duplicar
+                </button>
+              </div>
+            )}
+
+            <div>
+              <label className={labelClass}>Nome</label>
+              <input value={selected.name} disabled={isReadOnly} onChange={(e) => updateSelected({ name: e.target.value })} className={inputClass} />
+            </div>
+
+            <div>
+              <label className={labelClass}>Ícone</label>
+              <div className="flex flex-wrap gap-1.5">
+                {Object.keys(PERSONA_ICONS).map(icon => (
+                  <button
+                    key={icon}
+                    disabled={isReadOnly}
+                    onClick={() => updateSelected({ icon })}
+                    className={`p-2 rounded-lg border transition-colors disabled:cursor-not-allowed ${
+                      selected.icon === icon ? 'bg-blue-500/10 border-blue-500/30 text-blue-400' : 'bg-white/5 border-transparent text-gray-400 hover:text-white'
+                    }`}
+                  >
+                    <PersonaIcon icon={icon} size={16} />
+                  </button>
+                ))}
+              </div>
+            </div>
+
+            <div>
+              <label className={labelClass}>Instrução de sistema</label>
+              <textarea
+                value={selected.systemInstruction}
+                disabled={isReadOnly}
+                onChange={(e) => updateSelected({ systemInstruction: e.target.value })}
+                rows={7}
+                placeholder="Descreva como o assistente deve se comportar..."
+                className={`${inputClass} resize-y leading-relaxed`}
+              />
+            </div>
+
+            <div className="grid grid-cols-2 gap-4">
+              <div className="col-span-2">
+                <label className={labelClass}>Modelo padrão</label>
+                <select
+                  value={selected.defaultModelId || ''}
+                  disabled={isReadOnly}
+                  onChange={(e) => updateSelected({ defaultModelId: e.target.value || undefined })}
+                  className={`${inputClass} appearance-none`}
+                >
+                  <option value="" className="bg-[#18181b]">Manter modelo selecionado</option>
+                  {models.map(model => (
+                    <option key={model.id} value={model.id} className="bg-[#18181b]">{model.name}</option>
+                  ))}
+                </select>
+              </div>
+
+              <div>
+                <label className={labelClass}>Temperatura ({(selected.temperature ?? 0.7).toFixed(1)})</label>
+                <input
+                  type="range" min={0} max={2} step={0.1}
+                  value={selected.temperature ?? 0.7}
+                  disabled={isReadOnly}
+                  onChange={(e) => updateSelected({ temperature: parseFloat(e.target.value) })}
+                  className="w-full accent-blue-500"
+                />
+              </div>
+
+              <div>
+                <label className={labelClass}>Top P ({(selected.topP ?? 0.95).toFixed(2)})</label>
+                <input
+                  type="range" min={0} max={1} step={0.05}
+                  value={selected.topP ?? 0.95}
+                  disabled={isReadOnly}
+                  onChange={(e) => updateSelected({ topP: parseFloat(e.target.value) })}
+                  className="w-full accent-blue-500"
+                />
+              </div>
+
+              <div>
+                <label className={labelClass}>Top K</label>
+                <input
+                  type="number" min={1} max={100}
+                  value={selected.topK ?? 40}
+                  disabled={isReadOnly}
+                  onChange={(e) => updateSelected({ topK: parseInt(e.target.value, 10) || undefined })}
+                  className={inputClass}
+                />
+              </div>
+            </div>
+
+            {!isReadOnly && (
+              <button
+                onClick={deleteSelected}
+                className="flex items-center gap-2 text-xs text-red-400 hover:text-red-300 transition-colors"
+              >
+                <Trash2 size={12} /> Excluir persona
+              </button>
+            )}
+          </div>
+        </div>
+
+        {/* Footer */}
+        <div className="flex justify-end gap-2 px-6 py-4 border-t border-white/5">
+          <button
+            onClick={onClose}
+            className="px-4 py-2 text-sm font-medium text-gray-300 hover:text-white bg-white/5 hover:bg-white/10 rounded-lg transition-colors"
+          >
+            Cancelar
+          </button>
+          <button
+            onClick={handleSave}
+            className="px-4 py-2 text-sm font-medium text-black bg-white hover:bg-gray-200 rounded-lg transition-colors"
+          >
+            Salvar
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+};
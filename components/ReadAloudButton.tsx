@@ -0,0 +1,124 @@
+import React, { useCallback, useEffect, useRef, useState, useSyncExternalStore } from 'react';
+import { Volume2, Pause, Play, Square, ChevronDown, Check } from 'lucide-react';
+import { useClickOutside } from '../hooks/useClickOutside';
+import {
+  getServerSpeechState,
+  getSelectedVoiceURI,
+  getSpeechState,
+  getVoices,
+  isSpeechSynthesisSupported,
+  pauseSpeech,
+  resumeSpeech,
+  setSelectedVoiceURI,
+  speak,
+  stopSpeech,
+  subscribeSpeech,
+  subscribeVoices
+} from '../services/speechService';
+
+interface ReadAloudButtonProps {
+  messageId: string;
+  content: string;
+}
+
+export const ReadAloudButton: React.FC<ReadAloudButtonProps> = ({ messageId, content }) => {
+  const speech = useSyncExternalStore(subscribeSpeech, getSpeechState, getServerSpeechState);
+  const [isVoiceMenuOpen, setIsVoiceMenuOpen] = useState(false);
+  const [voices, setVoices] = useState<SpeechSynthesisVoice[]>([]);
+  const [voiceURI, setVoiceURI] = useState('');
+  const menuRef = useRef<HTMLDivElement>(null);
+
+  const isActive = speech.messageId === messageId;
+
+  const closeMenu = useCallback(() => setIsVoiceMenuOpen(false), []);
+  useClickOutside(menuRef, closeMenu);
+
+  useEffect(() => {
+    if (!isVoiceMenuOpen) return;
+    const update = () => setVoices(getVoices());
+    update();
+    setVoiceURI(getSelectedVoiceURI());
+    return subscribeVoices(update);
+  }, [isVoiceMenuOpen]);
+
+  // Stop reading a message that is no longer on screen
+  useEffect(() => () => {
+    if (getSpeechState().messageId === messageId) stopSpeech();
+  }, [messageId]);
+
+  if (!isSpeechSynthesisSupported()) return null;
+
+  const handleToggle = () => {
+    if (!isActive) {
+      speak(messageId, content);
+    } else if (speech.isPaused) {
+      resumeSpeech();
+    } else {
+      pauseSpeech();
+    }
+  };
+
+  const handleSelectVoice = (uri: string) => {
+    setSelectedVoiceURI(uri);
+    setVoiceURI(uri);
+    setIsVoiceMenuOpen(false);
+    // Restart with the new voice if this message is being read
+    if (isActive) speak(messageId, content);
+  };
+
+  // The browser's language comes first
+  const language = navigator.language.split('-')[0];
+  const sortedVoices = [...voices].sort((a, b) => (
+    Number(b.lang.startsWith(language)) - Number(a.lang.startsWith(language)) || a.name.localeCompare(b.name)
+  ));
+
+  return (
+    <div className={`relative flex items-center ${isActive || isVoiceMenuOpen ? '' : 'opacity-0 group-hover:opacity-100'} transition-opacity`} ref={menuRef}>
+      <button
+        onClick={handleToggle}
+        className={`p-1 transition-colors ${isActive ? 'text-blue-400 hover:text-blue-300' : 'text-gray-500 hover:text-white'}`}
+        title={!isActive ? 'Ler em voz alta' : speech.isPaused ? 'Continuar leitura' : 'Pausar leitura'}
+      >
+        {!isActive ? <Volume2 size={14} /> : speech.isPaused ? <Play size={14} /> : <Pause size={14} />}
+      </button>
+
+      {isActive && (
+        <button
+          onClick={stopSpeech}
+          className="p-1 text-gray-500 hover:text-white transition-colors"
+          title="Parar leitura"
+        >
+          <Square size={12} />
+        </button>
+      )}
+
+      <button
+        onClick={() => setIsVoiceMenuOpen(!isVoiceMenuOpen)}
+        className="p-0.5 text-gray-500 hover:text-white transition-colors"
+        title="Escolher voz"
+      >
+        <ChevronDown size={12} />
+      </button>
+
+      {isVoiceMenuOpen && (
+        <div className="absolute top-full right-0 mt-1 w-64 max-h-72 overflow-y-auto p-1.5 bg-[#18181b] border border-white/10 rounded-xl shadow-xl animate-in fade-in zoom-in-95 duration-100 origin-top-right z-50">
+          <div className="px-2.5 pt-1 pb-1.5 text-[11px] font-semibold text-gray-500 uppercase tracking-wider">Voz</div>
+          {[{ voiceURI: '', name: 'Padrão do navegador', lang: '' }, ...sortedVoices].map(voice => (
+            <button
+              key={voice.voiceURI}
+              onClick={() => handleSelectVoice(voice.voiceURI)}
+              className="w-full flex items-center gap-2 px-2.5 py-1.5 text-left text-xs text-gray-300 hover:bg-white/5 rounded-lg transition-colors"
+            >
+              <span className="flex-1 truncate">{voice.name}</span>
+              {voice.lang && <span className="text-[10px] text-gray-500">{voice.lang}</span>}
+              {voice.voiceURI === voiceURI && <Check size={12} className="text-blue-400" />}
+            </button>
+          ))}
+          {sortedVoices.length === 0 && (
+            <p className="px-2.5 py-1.5 text-xs text-gray-500">Nenhuma voz instalada foi encontrada.</p>
+          )}
+        </div>
+      )}
+    </div>
+  );
+};
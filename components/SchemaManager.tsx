@@ -0,0 +1,159 @@
+import React, { useState } from 'react';
+import { X, Plus, Copy, Trash2, Lock, AlertCircle } from 'lucide-react';
+import { ResponseSchema } from '../types';
+import { createResponseSchema, parseSchema } from '../services/schemaService';
+
+interface SchemaManagerProps {
+  builtInSchemas: ResponseSchema[];
+  customSchemas: ResponseSchema[];
+  onSave: (customSchemas: ResponseSchema[]) => void;
+  onClose: () => void;
+}
+
+const getSchemaError = (schema: ResponseSchema) => {
+  try {
+    parseSchema(schema.schema);
+    return '';
+  } catch (error) {
+    return error instanceof Error ? error.message : String(error);
+  }
+};
+
+export const SchemaManager: React.FC<SchemaManagerProps> = ({ builtInSchemas, customSchemas, onSave, onClose }) => {
+  const [drafts, setDrafts] = useState<ResponseSchema[]>(customSchemas);
+  const [selectedId, setSelectedId] = useState<string>(customSchemas[0]?.id ?? builtInSchemas[0].id);
+
+  const allSchemas = [...builtInSchemas, ...drafts];
+  const selected = allSchemas.find(s => s.id === selectedId) ?? builtInSchemas[0];
+  const isReadOnly = !!selected.isBuiltIn;
+  const selectedError = getSchemaError(selected);
+  const hasInvalidDrafts = drafts.some(s => getSchemaError(s));
+
+  const updateSelected = (changes: Partial<ResponseSchema>) => {
+    setDrafts(prev => prev.map(s => (s.id === selected.id ? { ...s, ...changes } : s)));
+  };
+
+  const addSchema = (base?: ResponseSchema) => {
+    const schema = base
+      ? { ...base, id: createResponseSchema().id, name: `${base.name} (cópia)`, isBuiltIn: undefined }
+      : createResponseSchema();
+    setDrafts(prev => [...prev, schema]);
+    setSelectedId(schema.id);
+  };
+
+  const deleteSelected = () => {
+    setDrafts(prev => prev.filter(s => s.id !== selected.id));
+    setSelectedId(builtInSchemas[0].id);
+  };
+
+  const handleSave = () => {
+    onSave(drafts.map(s => ({ ...s, name: s.name.trim() || 'Sem nome' })));
+    onClose();
+  };
+
+  const labelClass = "block text-xs font-medium text-gray-400 mb-1.5";
+  const inputClass = "w-full px-3 py-2 text-sm bg-white/5 border border-white/10 focus:border-white/20 rounded-lg text-gray-100 placeholder-gray-500 focus:outline-none transition-colors disabled:opacity-60";
+
+  return (
+    <div className="fixed inset-0 z-50 flex items-center justify-center p-4 bg-black/60 backdrop-blur-sm" onClick={onClose}>
+      <div
+        onClick={(e) => e.stopPropagation()}
+        className="w-full max-w-3xl max-h-[90vh] flex flex-col bg-[#18181b] border border-white/10 rounded-2xl shadow-2xl animate-in fade-in zoom-in-95 duration-150"
+      >
+        {/* Header */}
+        <div className="flex items-center justify-between px-6 py-4 border-b border-white/5">
+          <h2 className="text-lg font-semibold text-white">Esquemas de resposta</h2>
+          <button onClick={onClose} className="p-1.5 text-gray-400 hover:text-white rounded-lg hover:bg-white/5 transition-colors" title="Fechar">
+            <X size={18} />
+          </button>
+        </div>
+
+        <div className="flex flex-1 min-h-0">
+          {/* Schema List */}
+          <div className="w-56 flex-shrink-0 border-r border-white/5 p-3 overflow-y-auto space-y-1">
+            {allSchemas.map(schema => (
+              <button
+                key={schema.id}
+                onClick={() => setSelectedId(schema.id)}
+                className={`w-full flex items-center gap-2.5 px-3 py-2 text-sm rounded-lg text-left transition-colors ${
+                  schema.id === selected.id ? 'bg-white/10 text-white' : 'text-gray-400 hover:bg-white/5 hover:text-gray-200'
+                }`}
+              >
+                <span className="truncate flex-1">{schema.name}</span>
+                {schema.isBuiltIn && <Lock size={10} className="flex-shrink-0 text-gray-600" />}
+                {!schema.isBuiltIn && getSchemaError(schema) && <AlertCircle size={12} className="flex-shrink-0 text-red-400" />}
+              </button>
+            ))}
+            <button
+              onClick={() => addSchema()}
+              className="w-full flex items-center gap-2.5 px-3 py-2 text-sm text-gray-400 hover:text-white rounded-lg hover:bg-white/5 transition-colors"
+            >
+              <Plus size={14} /> Novo esquema
+            </button>
+          </div>
+
+          {/* Editor */}
+          <div className="flex-1 p-6 overflow-y-auto space-y-5">
+            {isReadOnly && (
+              <div className="flex items-center justify-between gap-3 p-3 text-xs text-gray-400 bg-white/5 rounded-lg">
+                <span>Esquemas de exemplo não podem ser editados.</span>
+                <button onClick={() => addSchema(selected)} className="flex items-center gap-1.5 text-gray-200 hover:text-white">
+                  <Copy size={12} /> Duplicar
+                </button>
+              </div>
+            )}
+
+            <div>
+              <label className={labelClass}>Nome</label>
+              <input value={selected.name} disabled={isReadOnly} onChange={(e) => updateSelected({ name: e.target.value })} className={inputClass} />
+            </div>
+
+            <div>
+              <label className={labelClass}>JSON Schema</label>
+              <textarea
+                value={selected.schema}
+                disabled={isReadOnly}
+                onChange={(e) => updateSelected({ schema: e.target.value })}
+                rows={14}
+                spellCheck={false}
+                className={`${inputClass} resize-y font-mono text-xs leading-relaxed`}
+              />
+              {selectedError && (
+                <p className="mt-1.5 flex items-center gap-1.5 text-xs text-red-400">
+                  <AlertCircle size={12} /> {selectedError}
+                </p>
+              )}
+            </div>
+
+            {!isReadOnly && (
+              <button
+                onClick={deleteSelected}
+                className="flex items-center gap-2 text-xs text-red-400 hover:text-red-300 transition-colors"
+              >
+                <Trash2 size={12} /> Excluir esquema
+              </button>
+            )}
+          </div>
+        </div>
+
+        {/* Footer */}
+        <div className="flex justify-end gap-2 px-6 py-4 border-t border-white/5">
+          <button
+            onClick={onClose}
+            className="px-4 py-2 text-sm font-medium text-gray-300 hover:text-white bg-white/5 hover:bg-white/10 rounded-lg transition-colors"
+          >
+            Cancelar
+          </button>
+          <button
+            onClick={handleSave}
+            disabled={hasInvalidDrafts}
+            className="px-4 py-2 text-sm font-medium text-black bg-white hover:bg-gray-200 rounded-lg transition-colors disabled:opacity-40 disabled:cursor-not-allowed"
+            title={hasInvalidDrafts ? 'Corrija os esquemas inválidos antes de salvar' : undefined}
+          >
+            Salvar
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+};
@@ -0,0 +1,239 @@
+import React, { useState, useRef, useCallback } from 'react';
+import { MessageSquare, Trash2, Download, MoreHorizontal, Pencil, Pin, PinOff, Tag, X } from 'lucide-react';
+import { ChatSession } from '../types';
+import { ExportFormat } from '../services/exportService';
+import { useClickOutside } from '../hooks/useClickOutside';
+
+interface SessionItemProps {
+  session: ChatSession;
+  isActive: boolean;
+  allTags: string[];
+  exportOptions: { format: ExportFormat, label: string }[];
+  onSelect: () => void;
+  onDelete: (e: React.MouseEvent) => void;
+  onRename: (title: string) => void;
+  onTogglePin: () => void;
+  onUpdateTags: (tags: string[]) => void;
+  onExport: (format: ExportFormat) => void;
+}
+
+// Popover to add/remove tags of a session, suggesting tags already in use
+const TagEditor: React.FC<{
+  tags: string[],
+  allTags: string[],
+  onChange: (tags: string[]) => void,
+  onClose: () => void
+}> = ({ tags, allTags, onChange, onClose }) => {
+  const [input, setInput] = useState('');
+  const editorRef = useRef<HTMLDivElement>(null);
+  useClickOutside(editorRef, onClose);
+
+  const addTag = (value: string) => {
+    const tag = value.trim();
+    if (tag && !tags.includes(tag)) {
+      onChange([...tags, tag]);
+    }
+    setInput('');
+  };
+
+  const suggestions = allTags.filter(t => !tags.includes(t) && t.toLowerCase().includes(input.trim().toLowerCase()));
+
+  return (
+    <div
+      ref={editorRef}
+      onClick={(e) => e.stopPropagation()}
+      className="absolute left-0 right-0 top-full mt-1 bg-[#18181b] border border-white/10 rounded-xl shadow-xl p-2 z-50"
+    >
+      {tags.length > 0 && (
+        <div className="flex flex-wrap gap-1 mb-2">
+          {tags.map(tag => (
+            <span key={tag} className="flex items-center gap-1 px-2 py-0.5 text-[11px] text-blue-300 bg-blue-500/10 border border-blue-500/20 rounded-full">
+              {tag}
+              <button onClick={() => onChange(tags.filter(t => t !== tag))} className="hover:text-white" title="Remover tag">
+                <X size={10} />
+              </button>
+            </span>
+          ))}
+        </div>
+      )}
+      <input
+        autoFocus
+        value={input}
+        onChange={(e) => setInput(e.target.value)}
+        onKeyDown={(e) => {
+          if (e.key === 'Enter' || e.key === ',') {
+            e.preventDefault();
+            addTag(input);
+          } else if (e.key === 'Escape') {
+            onClose();
+          }
+        }}
+        placeholder="Nova tag..."
+        className="w-full px-2 py-1.5 text-xs bg-white/5 border border-white/5 focus:border-white/15 rounded-lg text-gray-200 placeholder-gray-500 focus:outline-none"
+      />
+      {suggestions.length > 0 && (
+        <div className="flex flex-wrap gap-1 mt-2">
+          {suggestions.map(tag => (
+            <button
+              key={tag}
+              onClick={() => addTag(tag)}
+              className="px-2 py-0.5 text-[11px] text-gray-400 hover:text-white bg-white/5 hover:bg-white/10 rounded-full transition-colors"
+            >
+              + {tag}
+            </button>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+};
+
+export const SessionItem: React.FC<SessionItemProps> = ({
+  session,
+  isActive,
+  allTags,
+  exportOptions,
+  onSelect,
+  onDelete,
+  onRename,
+  onTogglePin,
+  onUpdateTags,
+  onExport
+}) => {
+  const [isMenuOpen, setIsMenuOpen] = useState(false);
+  const [isRenaming, setIsRenaming] = useState(false);
+  const [isEditingTags, setIsEditingTags] = useState(false);
+  const [renameValue, setRenameValue] = useState('');
+  const menuRef = useRef<HTMLDivElement>(null);
+
+  const closeMenu = useCallback(() => setIsMenuOpen(false), []);
+  const closeTagEditor = useCallback(() => setIsEditingTags(false), []);
+  useClickOutside(menuRef, closeMenu);
+
+  const startRenaming = () => {
+    setRenameValue(session.title);
+    setIsRenaming(true);
+    setIsMenuOpen(false);
+  };
+
+  const commitRename = () => {
+    const title = renameValue.trim();
+    if (title && title !== session.title) {
+      onRename(title);
+    }
+    setIsRenaming(false);
+  };
+
+  const menuItemClass = "w-full flex items-center gap-2 text-left px-2.5 py-1.5 text-xs text-gray-300 hover:text-white hover:bg-white/5 rounded-lg transition-colors";
+
+  return (
+    <div
+      onClick={() => !isRenaming && onSelect()}
+      onDoubleClick={startRenaming}
+      className={`
+        group flex items-center gap-3 w-full px-3 py-2.5 text-sm rounded-lg transition-all cursor-pointer relative
+        ${isActive
+          ? 'bg-white/10 text-white shadow-inner'
+          : 'text-gray-400 hover:bg-white/5 hover:text-gray-200'
+        }
+      `}
+    >
+      {session.pinned ? (
+        <Pin size={16} className={`flex-shrink-0 ${isActive ? 'text-blue-400' : 'text-gray-500'}`} />
+      ) : (
+        <MessageSquare size={16} className={`flex-shrink-0 ${isActive ? 'text-blue-400' : 'text-gray-600'}`} />
+      )}
+
+      {isRenaming ? (
+        <input
+          autoFocus
+          value={renameValue}
+          onChange={(e) => setRenameValue(e.target.value)}
+          onClick={(e) => e.stopPropagation()}
+          onBlur={commitRename}
+          onKeyDown={(e) => {
+            if (e.key === 'Enter') commitRename();
+            else if (e.key === 'Escape') setIsRenaming(false);
+          }}
+          className="flex-1 min-w-0 px-1.5 py-0.5 -my-0.5 text-sm font-medium bg-black/40 border border-white/15 rounded text-white focus:outline-none"
+        />
+      ) : (
+        <div className="flex-1 min-w-0">
+          <span className="block truncate font-medium">{session.title}</span>
+          {session.tags && session.tags.length > 0 && (
+            <span className="block truncate text-[10px] text-gray-500 mt-0.5">
+              {session.tags.map(tag => `#${tag}`).join(' ')}
+            </span>
+          )}
+        </div>
+      )}
+
+      {/* Fade out text effect on right */}
+      {!isRenaming && (
+        <div className={`absolute right-0 top-0 bottom-0 w-12 bg-gradient-to-l to-transparent rounded-r-lg pointer-events-none
+           ${isActive ? 'from-[#1a1a1c]' : 'from-[#09090b] group-hover:from-[#131315]'}
+        `} />
+      )}
+
+      {!isRenaming && (
+        <div ref={menuRef} className={`absolute right-2 z-10 transition-all ${
+          isMenuOpen ? 'opacity-100' : 'opacity-0 group-hover:opacity-100'
+        }`}>
+          <button
+            onClick={(e) => {
+              e.stopPropagation();
+              setIsMenuOpen(!isMenuOpen);
+            }}
+            className="p-1.5 rounded-md text-gray-500 hover:text-gray-200 hover:bg-white/10"
+            title="Opções"
+          >
+            <MoreHorizontal size={14} />
+          </button>
+
+          {/* Actions Menu */}
+          {isMenuOpen && (
+            <div
+              onClick={(e) => e.stopPropagation()}
+              className="absolute right-0 top-full mt-1 w-48 bg-[#18181b] border border-white/10 rounded-xl shadow-xl p-1 z-50"
+            >
+              <button onClick={startRenaming} className={menuItemClass}>
+                <Pencil size={12} /> Renomear
+              </button>
+              <button onClick={() => { onTogglePin(); closeMenu(); }} className={menuItemClass}>
+                {session.pinned ? <><PinOff size={12} /> Desafixar</> : <><Pin size={12} /> Fixar no topo</>}
+              </button>
+              <button onClick={() => { setIsEditingTags(true); closeMenu(); }} className={menuItemClass}>
+                <Tag size={12} /> Editar tags
+              </button>
+
+              <div className="my-1 border-t border-white/5" />
+              <div className="px-2.5 py-1 text-[10px] font-semibold text-gray-500 uppercase tracking-wider">Exportar como</div>
+              {exportOptions.map(option => (
+                <button key={option.format} onClick={() => { onExport(option.format); closeMenu(); }} className={menuItemClass}>
+                  <Download size={12} /> {option.label}
+                </button>
+              ))}
+
+              <div className="my-1 border-t border-white/5" />
+              <button
+                onClick={(e) => { closeMenu(); onDelete(e); }}
+                className={`${menuItemClass} text-red-400 hover:text-red-300`}
+              >
+                <Trash2 size={12} /> Excluir conversa
+              </button>
+            </div>
+          )}
+        </div>
+      )}
+
+      {isEditingTags && (
+        <TagEditor
+          tags={session.tags || []}
+          allTags={allTags}
+          onChange={onUpdateTags}
+          onClose={closeTagEditor}
+        />
+      )}
+    </div>
+  );
+};
@@ -0,0 +1,337 @@
+import React, { useState, useRef } from 'react';
+import { X, KeyRound, Eye, EyeOff, Loader2, CheckCircle2, AlertTriangle, User, Trash2, Upload, Server } from 'lucide-react';
+import { AppSettings } from '../types';
+import { validateApiKey } from '../services/geminiService';
+import { getAvailableModels } from '../services/providers';
+
+interface SettingsPanelProps {
+  settings: AppSettings;
+  onSave: (settings: AppSettings) => void;
+  onClearData: () => void;
+  onClose: () => void;
+}
+
+type KeyStatus = 'idle' | 'validating' | 'valid' | 'invalid';
+
+const AVATAR_SIZE = 128;
+
+// Shrinks the chosen picture so it fits comfortably in localStorage
+const resizeImage = (file: File): Promise<string> => {
+  return new Promise((resolve, reject) => {
+    const reader = new FileReader();
+    reader.onerror = () => reject(reader.error);
+    reader.onload = () => {
+      const img = new Image();
+      img.onerror = reject;
+      img.onload = () => {
+        const canvas = document.createElement('canvas');
+        canvas.width = AVATAR_SIZE;
+        canvas.height = AVATAR_SIZE;
+        const ctx = canvas.getContext('2d');
+        if (!ctx) return reject(new Error("Canvas not supported"));
+
+        // Center crop to a square
+        const side = Math.min(img.width, img.height);
+        ctx.drawImage(img, (img.width - side) / 2, (img.height - side) / 2, side, side, 0, 0, AVATAR_SIZE, AVATAR_SIZE);
+        resolve(canvas.toDataURL('image/jpeg', 0.85));
+      };
+      img.src = reader.result as string;
+    };
+    reader.readAsDataURL(file);
+  });
+};
+
+export const SettingsPanel: React.FC<SettingsPanelProps> = ({ settings, onSave, onClearData, onClose }) => {
+  const [draft, setDraft] = useState<AppSettings>(settings);
+  const [showKey, setShowKey] = useState(false);
+  const [keyStatus, setKeyStatus] = useState<KeyStatus>(settings.apiKey ? 'valid' : 'idle');
+  const [keyError, setKeyError] = useState('');
+  const avatarInputRef = useRef<HTMLInputElement>(null);
+
+  // Reflects provider changes made in this panel before they are saved
+  const models = getAvailableModels(draft);
+
+  const updateDraft = (changes: Partial<AppSettings>) => {
+    setDraft(prev => ({ ...prev, ...changes }));
+  };
+
+  const handleValidateKey = async (): Promise<boolean> => {
+    const key = draft.apiKey.trim();
+    if (!key) {
+      setKeyStatus('idle');
+      return true;
+    }
+
+    setKeyStatus('validating');
+    setKeyError('');
+    try {
+      await validateApiKey(key);
+      setKeyStatus('valid');
+      return true;
+    } catch (error) {
+      console.error("API key validation failed", error);
+      setKeyStatus('invalid');
+      setKeyError("A chave não foi aceita pela API do Gemini. Verifique se ela está correta e ativa.");
+      return false;
+    }
+  };
+
+  const handleSave = async () => {
+    const apiKey = draft.apiKey.trim();
+    if (apiKey !== settings.apiKey && !(await handleValidateKey())) return;
+
+    onSave({
+      ...draft,
+      apiKey,
+      displayName: draft.displayName.trim(),
+      openAIBaseUrl: draft.openAIBaseUrl.trim(),
+      openAIApiKey: draft.openAIApiKey.trim(),
+      defaultModelId: models.some(m => m.id === draft.defaultModelId) ? draft.defaultModelId : models[0].id,
+    });
+    onClose();
+  };
+
+  const handleAvatarSelect = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = '';
+    if (!file || !file.type.startsWith('image/')) return;
+
+    try {
+      updateDraft({ avatar: await resizeImage(file) });
+    } catch (err) {
+      console.error("Error reading avatar", err);
+    }
+  };
+
+  const handleClearData = () => {
+    if (window.confirm("Apagar todas as conversas e o histórico de uso salvos neste navegador? Esta ação não pode ser desfeita.")) {
+      onClearData();
+    }
+  };
+
+  const sectionTitleClass = "text-xs font-semibold text-gray-500 uppercase tracking-wider mb-3";
+  const inputClass = "w-full px-3 py-2 text-sm bg-white/5 border border-white/10 focus:border-white/20 rounded-lg text-gray-100 placeholder-gray-500 focus:outline-none transition-colors";
+
+  return (
+    <div className="fixed inset-0 z-50 flex items-center justify-center p-4 bg-black/60 backdrop-blur-sm" onClick={onClose}>
+      <div
+        onClick={(e) => e.stopPropagation()}
+        className="w-full max-w-lg max-h-[90vh] overflow-y-auto bg-[#18181b] border border-white/10 rounded-2xl shadow-2xl animate-in fade-in zoom-in-95 duration-150"
+      >
+        {/* Header */}
+        <div className="flex items-center justify-between px-6 py-4 border-b border-white/5">
+          <h2 className="text-lg font-semibold text-white">Configurações</h2>
+          <button onClick={onClose} className="p-1.5 text-gray-400 hover:text-white rounded-lg hover:bg-white/5 transition-colors" title="Fechar">
+            <X size={18} />
+          </button>
+        </div>
+
+        <div className="p-6 space-y-8">
+          {/* API Key */}
+          <section>
+            <div className={sectionTitleClass}>Chave de API do Gemini</div>
+            <div className="relative">
+              <KeyRound size={14} className="absolute left-3 top-1/2 -translate-y-1/2 text-gray-500" />
+              <input
+                type={showKey ? 'text' : 'password'}
+                value={draft.apiKey}
+                onChange={(e) => {
+                  updateDraft({ apiKey: e.target.value });
+                  setKeyStatus('idle');
+                }}
+                placeholder="Cole sua chave aqui"
+                autoComplete="off"
+                spellCheck={false}
+                className={`${inputClass} pl-8 pr-10 font-mono`}
+              />
+              <button
+                onClick={() => setShowKey(!showKey)}
+                className="absolute right-2 top-1/2 -translate-y-1/2 p-1 text-gray-500 hover:text-gray-200 transition-colors"
+                title={showKey ? 'Ocultar chave' : 'Mostrar chave'}
+              >
+                {showKey ? <EyeOff size={14} /> : <Eye size={14} />}
+              </button>
+            </div>
+
+            <div className="flex items-center justify-between mt-2 gap-3">
+              <div className="text-xs min-h-[1rem]">
+                {keyStatus === 'validating' && (
+                  <span className="flex items-center gap-1.5 text-gray-400"><Loader2 size={12} className="animate-spin" /> Validando...</span>
+                )}
+                {keyStatus === 'valid' && (
+                  <span className="flex items-center gap-1.5 text-green-400"><CheckCircle2 size={12} /> Chave válida</span>
+                )}
+                {keyStatus === 'invalid' && (
+                  <span className="flex items-center gap-1.5 text-red-400"><AlertTriangle size={12} /> {keyError}</span>
+                )}
+              </div>
+              <button
+                onClick={handleValidateKey}
+                disabled={!draft.apiKey.trim() || keyStatus === 'validating'}
+                className="flex-shrink-0 px-3 py-1.5 text-xs font-medium text-gray-200 bg-white/5 hover:bg-white/10 rounded-lg transition-colors disabled:opacity-40 disabled:cursor-not-allowed"
+              >
+                Validar
+              </button>
+            </div>
+            <p className="text-xs text-gray-500 mt-2 leading-relaxed">
+              A chave fica salva apenas neste navegador e é enviada somente para a API do Gemini.
+            </p>
+          </section>
+
+          {/* Other Providers */}
+          <section>
+            <div className={sectionTitleClass}>Outros provedores</div>
+            <div className="space-y-3">
+              <div className="relative">
+                <Server size={14} className="absolute left-3 top-1/2 -translate-y-1/2 text-gray-500" />
+                <input
+                  type="url"
+                  value={draft.openAIBaseUrl}
+                  onChange={(e) => updateDraft({ openAIBaseUrl: e.target.value })}
+                  placeholder="URL compatível com OpenAI (ex.: http://localhost:11434/v1)"
+                  spellCheck={false}
+                  className={`${inputClass} pl-8 font-mono`}
+                />
+              </div>
+              <input
+                type="password"
+                value={draft.openAIApiKey}
+                onChange={(e) => updateDraft({ openAIApiKey: e.target.value })}
+                placeholder="Chave de API (opcional para servidores locais)"
+                autoComplete="off"
+                spellCheck={false}
+                className={`${inputClass} font-mono`}
+              />
+              <input
+                type="text"
+                value={draft.openAIModels}
+                onChange={(e) => updateDraft({ openAIModels: e.target.value })}
+                placeholder="Modelos, separados por vírgula (ex.: llama3.2, qwen2.5)"
+                spellCheck={false}
+                className={inputClass}
+              />
+              <label className="flex items-center gap-2 text-sm text-gray-300 cursor-pointer select-none">
+                <input
+                  type="checkbox"
+                  checked={draft.enableMockProvider}
+                  onChange={(e) => updateDraft({ enableMockProvider: e.target.checked })}
+                  className="accent-blue-500"
+                />
+                Mostrar modelo simulado (para testes, sem acesso à rede)
+              </label>
+            </div>
+            <p className="text-xs text-gray-500 mt-2 leading-relaxed">
+              Funciona com OpenAI, Ollama, llama.cpp e outros servidores que implementam a API de Chat Completions.
+            </p>
+          </section>
+
+          {/* Profile */}
+          <section>
+            <div className={sectionTitleClass}>Perfil</div>
+            <div className="flex items-center gap-4">
+              <button
+                onClick={() => avatarInputRef.current?.click()}
+                className="relative w-14 h-14 rounded-full overflow-hidden flex-shrink-0 bg-gradient-to-br from-indigo-500 to-purple-600 flex items-center justify-center group"
+                title="Alterar foto"
+              >
+                {draft.avatar ? (
+                  <img src={draft.avatar} alt="" className="w-full h-full object-cover" />
+                ) : (
+                  <User size={22} className="text-white" />
+                )}
+                <div className="absolute inset-0 bg-black/50 flex items-center justify-center opacity-0 group-hover:opacity-100 transition-opacity">
+                  <Upload size={16} className="text-white" />
+                </div>
+              </button>
+              <input type="file" accept="image/*" ref={avatarInputRef} className="hidden" onChange={handleAvatarSelect} />
+
+              <div className="flex-1 min-w-0">
+                <input
+                  type="text"
+                  value={draft.displayName}
+                  onChange={(e) => updateDraft({ displayName: e.target.value })}
+                  placeholder="Seu nome"
+                  className={inputClass}
+                />
+                {draft.avatar && (
+                  <button
+                    onClick={() => updateDraft({ avatar: undefined })}
+                    className="mt-1.5 text-xs text-gray-500 hover:text-gray-300 transition-colors"
+                  >
+                    Remover foto
+                  </button>
+                )}
+              </div>
+            </div>
+          </section>
+
+          {/* Default Model */}
+          <section>
+            <div className={sectionTitleClass}>Modelo padrão</div>
+            <select
+              value={draft.defaultModelId}
+              onChange={(e) => updateDraft({ defaultModelId: e.target.value })}
+              className={`${inputClass} appearance-none cursor-pointer`}
+            >
+              {models.map(model => (
+                <option key={model.id} value={model.id} className="bg-[#18181b]">
+                  {model.name}
+                </option>
+              ))}
+            </select>
+            <p className="text-xs text-gray-500 mt-2">Usado ao abrir o aplicativo.</p>
+          </section>
+
+          {/* Image Context Budget */}
+          <section>
+            <div className={sectionTitleClass}>Imagens e arquivos no contexto</div>
+            <div className="flex items-center gap-3">
+              <input
+                type="number"
+                min={0}
+                max={20}
+                step={1}
+                value={draft.contextImageBudgetMB}
+                onChange={(e) => updateDraft({ contextImageBudgetMB: Math.max(0, parseFloat(e.target.value) || 0) })}
+                className={`${inputClass} w-24`}
+              />
+              <span className="text-sm text-gray-400">MB</span>
+            </div>
+            <p className="text-xs text-gray-500 mt-2 leading-relaxed">
+              Limite das imagens e arquivos reenviados ao modelo a cada mensagem. Acima dele, as imagens mais antigas são reduzidas e os anexos mais antigos deixados de fora.
+            </p>
+          </section>
+
+          {/* Data */}
+          <section>
+            <div className={sectionTitleClass}>Dados</div>
+            <button
+              onClick={handleClearData}
+              className="flex items-center gap-2 px-3 py-2 text-sm font-medium text-red-400 bg-red-500/10 hover:bg-red-500/20 border border-red-500/20 rounded-lg transition-colors"
+            >
+              <Trash2 size={14} />
+              Apagar todas as conversas
+            </button>
+          </section>
+        </div>
+
+        {/* Footer */}
+        <div className="flex justify-end gap-2 px-6 py-4 border-t border-white/5">
+          <button
+            onClick={onClose}
+            className="px-4 py-2 text-sm font-medium text-gray-300 hover:text-white bg-white/5 hover:bg-white/10 rounded-lg transition-colors"
+          >
+            Cancelar
+          </button>
+          <button
+            onClick={handleSave}
+            disabled={keyStatus === 'validating'}
+            className="px-4 py-2 text-sm font-medium text-black bg-white hover:bg-gray-200 rounded-lg transition-colors disabled:opacity-40"
+          >
+            Salvar
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+};
@@ -1,6 +1,11 @@
-import React from 'react';
-import { Plus, MessageSquare, Trash2, Settings, User } from 'lucide-react';
-import { ChatSession } from '../types';
+import React, { useState, useRef } from 'react';
+import { Plus, MessageSquare, Settings, User, Download, Upload, Search, X, BarChart3 } from 'lucide-react';
+import { ChatSession, AppSettings } from '../types';
+import { SessionItem } from './SessionItem';
+import { ExportFormat } from '../services/exportService';
+import { SearchResult } from '../utils/searchIndex';
+import { groupSessions, getAllTags } from '../utils/sessionGroups';
+import { useClickOutside } from '../hooks/useClickOutside';
 
 interface SidebarProps {
   onNewChat: () => void;
@@ -8,15 +13,106 @@ interface SidebarProps {
   currentSessionId: string | null;
   onSelectSession: (session: ChatSession) => void;
   onDeleteSession: (e: React.MouseEvent, sessionId: string) => void;
+  onUpdateSession: (sessionId: string, changes: Partial<ChatSession>) => void;
+  onExportSessions: (sessionIds: string[] | null, format: ExportFormat) => void; // null exporta todas
+  onImportSessions: (file: File) => void;
+  onSearch: (query: string) => SearchResult[];
+  onOpenSearchResult: (result: SearchResult) => void;
+  settings: AppSettings;
+  onOpenSettings: () => void;
+  onOpenUsage: () => void;
 }
 
+const EXPORT_OPTIONS: { format: ExportFormat, label: string }[] = [
+  { format: 'markdown', label: 'Markdown (.md)' },
+  { format: 'json', label: 'JSON (.json)' },
+  { format: 'html', label: 'HTML (.html)' },
+];
+
+// Renders a snippet with the matched terms highlighted
+const HighlightedSnippet: React.FC<{ result: SearchResult }> = ({ result }) => {
+  const pieces: React.ReactNode[] = [];
+  let cursor = 0;
+
+  result.highlights.forEach(([start, end], idx) => {
+    if (start < cursor) return; // Overlapping matches
+    pieces.push(result.snippet.slice(cursor, start));
+    pieces.push(
+      <mark key={idx} className="bg-blue-500/30 text-blue-100 rounded-sm px-0.5">
+        {result.snippet.slice(start, end)}
+      </mark>
+    );
+    cursor = end;
+  });
+  pieces.push(result.snippet.slice(cursor));
+
+  return <>{pieces}</>;
+};
+
+// Small popover listing the export formats
+const ExportMenu: React.FC<{ onSelect: (format: ExportFormat) => void, onClose: () => void }> = ({ onSelect, onClose }) => {
+  const menuRef = useRef<HTMLDivElement>(null);
+  useClickOutside(menuRef, onClose);
+
+  return (
+    <div 
+      ref={menuRef}
+      onClick={(e) => e.stopPropagation()}
+      className="absolute right-0 top-full mt-1 w-44 bg-[#18181b] border border-white/10 rounded-xl shadow-xl p-1 z-50"
+    >
+      <div className="px-2.5 py-1.5 text-[10px] font-semibold text-gray-500 uppercase tracking-wider">Exportar como</div>
+      {EXPORT_OPTIONS.map(option => (
+        <button
+          key={option.format}
+          onClick={() => {
+            onSelect(option.format);
+            onClose();
+          }}
+          className="w-full text-left px-2.5 py-1.5 text-xs text-gray-300 hover:text-white hover:bg-white/5 rounded-lg transition-colors"
+        >
+          {option.label}
+        </button>
+      ))}
+    </div>
+  );
+};
+
 export const Sidebar: React.FC<SidebarProps> = ({ 
   onNewChat, 
   sessions, 
   currentSessionId, 
   onSelectSession,
-  onDeleteSession
+  onDeleteSession,
+  onUpdateSession,
+  onExportSessions,
+  onImportSessions,
+  onSearch,
+  onOpenSearchResult,
+  settings,
+  onOpenSettings,
+  onOpenUsage
 }) => {
+  const [isExportAllOpen, setIsExportAllOpen] = useState(false);
+  const importInputRef = useRef<HTMLInputElement>(null);
+  const [searchQuery, setSearchQuery] = useState('');
+  const [tagFilter, setTagFilter] = useState<string | null>(null);
+
+  const allTags = getAllTags(sessions);
+  const activeTagFilter = tagFilter && allTags.includes(tagFilter) ? tagFilter : null;
+  const sessionGroups = groupSessions(activeTagFilter ? sessions.filter(s => s.tags?.includes(activeTagFilter)) : sessions);
+
+  const searchResults = searchQuery.trim() ? onSearch(searchQuery) : [];
+  const sessionTitles = new Map(sessions.map(s => [s.id, s.title]));
+
+  const handleImportFile = (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    if (file) {
+      onImportSessions(file);
+    }
+    // Reset input so the same file can be imported again
+    e.target.value = '';
+  };
+
   return (
     <div className="flex flex-col h-full bg-black/90 md:bg-[#09090b] border-r border-white/5 md:border-white/10 p-3">
       {/* New Chat Button */}
@@ -30,42 +126,136 @@ export const Sidebar: React.FC<SidebarProps> = ({
         <span>Nova Conversa</span>
       </button>
 
-      {/* History Section */}
-      <div className="flex-1 overflow-y-auto -mx-2 px-2 scrollbar-hide space-y-6">
+      {/* Search Box */}
+      <div className="relative mb-4">
+        <Search size={14} className="absolute left-3 top-1/2 -translate-y-1/2 text-gray-500 pointer-events-none" />
+        <input
+          type="text"
+          value={searchQuery}
+          onChange={(e) => setSearchQuery(e.target.value)}
+          onKeyDown={(e) => e.key === 'Escape' && setSearchQuery('')}
+          placeholder="Buscar nas conversas..."
+          className="w-full pl-8 pr-8 py-2 text-sm bg-white/5 border border-white/5 focus:border-white/15 rounded-lg text-gray-200 placeholder-gray-500 focus:outline-none transition-colors"
+        />
+        {searchQuery && (
+          <button
+            onClick={() => setSearchQuery('')}
+            className="absolute right-2 top-1/2 -translate-y-1/2 p-0.5 text-gray-500 hover:text-gray-200 transition-colors"
+            title="Limpar busca"
+          >
+            <X size={14} />
+          </button>
+        )}
+      </div>
+
+      {/* Hidden Import Input */}
+      <input
+        type="file"
+        accept="application/json,.json"
+        ref={importInputRef}
+        className="hidden"
+        onChange={handleImportFile}
+      />
+
+      {/* Search Results */}
+      {searchQuery.trim() ? (
+        <div className="flex-1 overflow-y-auto -mx-2 px-2 scrollbar-hide space-y-3">
+          <div className="text-xs font-semibold text-gray-500 px-3 uppercase tracking-wider">
+            {searchResults.length > 0 ? `Resultados (${searchResults.length})` : 'Nenhum resultado'}
+          </div>
+          <div className="space-y-1">
+            {searchResults.map((result) => (
+              <button
+                key={`${result.sessionId}:${result.messageId}`}
+                onClick={() => onOpenSearchResult(result)}
+                className="w-full text-left px-3 py-2.5 rounded-lg hover:bg-white/5 transition-colors group"
+              >
+                <div className="flex items-center gap-2 text-xs font-medium text-gray-300 group-hover:text-white">
+                  <MessageSquare size={12} className="flex-shrink-0 text-gray-600" />
+                  <span className="truncate">{sessionTitles.get(result.sessionId) || 'Conversa'}</span>
+                </div>
+                <div className="mt-1 text-xs text-gray-500 leading-relaxed line-clamp-3 break-words">
+                  <HighlightedSnippet result={result} />
+                </div>
+              </button>
+            ))}
+          </div>
+        </div>
+      ) : (
+      /* History Section */
+      <div className="flex-1 overflow-y-auto -mx-2 px-2 scrollbar-hide space-y-3">
+        <div className="flex items-center justify-between px-3">
+          <div className="text-xs font-semibold text-gray-500 uppercase tracking-wider">Histórico</div>
+          <div className="relative flex items-center gap-1">
+            <button
+              onClick={() => importInputRef.current?.click()}
+              className="p-1 rounded-md text-gray-500 hover:text-gray-200 hover:bg-white/10 transition-colors"
+              title="Importar conversas (JSON)"
+            >
+              <Upload size={14} />
+            </button>
+            {sessions.length > 0 && (
+              <button
+                onMouseDown={(e) => e.stopPropagation()}
+                onClick={() => setIsExportAllOpen(!isExportAllOpen)}
+                className="p-1 rounded-md text-gray-500 hover:text-gray-200 hover:bg-white/10 transition-colors"
+                title="Exportar todas as conversas"
+              >
+                <Download size={14} />
+              </button>
+            )}
+            {isExportAllOpen && (
+              <ExportMenu
+                onSelect={(format) => onExportSessions(null, format)}
+                onClose={() => setIsExportAllOpen(false)}
+              />
+            )}
+          </div>
+        </div>
+
+        {/* Tag Filter */}
+        {allTags.length > 0 && (
+          <div className="flex flex-wrap gap-1 px-2">
+            {allTags.map(tag => (
+              <button
+                key={tag}
+                onClick={() => setTagFilter(activeTagFilter === tag ? null : tag)}
+                className={`px-2 py-0.5 text-[11px] rounded-full border transition-colors ${
+                  activeTagFilter === tag
+                    ? 'text-blue-300 bg-blue-500/10 border-blue-500/30'
+                    : 'text-gray-500 bg-white/5 border-transparent hover:text-gray-300'
+                }`}
+              >
+                #{tag}
+              </button>
+            ))}
+          </div>
+        )}
+
         {sessions.length > 0 ? (
-          <div>
-            <div className="text-xs font-semibold text-gray-500 mb-3 px-3 uppercase tracking-wider">Histórico</div>
-            <div className="space-y-1">
-              {sessions.map((session) => (
-                <div 
-                  key={session.id}
-                  onClick={() => onSelectSession(session)}
-                  className={`
-                    group flex items-center gap-3 w-full px-3 py-2.5 text-sm rounded-lg transition-all cursor-pointer relative
-                    ${currentSessionId === session.id 
-                      ? 'bg-white/10 text-white shadow-inner' 
-                      : 'text-gray-400 hover:bg-white/5 hover:text-gray-200'
-                    }
-                  `}
-                >
-                  <MessageSquare size={16} className={`flex-shrink-0 ${currentSessionId === session.id ? 'text-blue-400' : 'text-gray-600'}`} />
-                  <span className="truncate flex-1 font-medium">{session.title}</span>
-                  
-                  {/* Fade out text effect on right */}
-                  <div className={`absolute right-0 top-0 bottom-0 w-12 bg-gradient-to-l to-transparent rounded-r-lg pointer-events-none
-                     ${currentSessionId === session.id ? 'from-[#1a1a1c]' : 'from-[#09090b] group-hover:from-[#131315]'}
-                  `} />
-
-                  <button
-                    onClick={(e) => onDeleteSession(e, session.id)}
-                    className="absolute right-2 p-1.5 rounded-md text-gray-500 hover:text-red-400 hover:bg-white/10 opacity-0 group-hover:opacity-100 transition-all z-10"
-                    title="Excluir conversa"
-                  >
-                    <Trash2 size={14} />
-                  </button>
+          <div className="space-y-5">
+            {sessionGroups.map(group => (
+              <div key={group.label}>
+                <div className="text-[11px] font-medium text-gray-500 mb-1.5 px-3">{group.label}</div>
+                <div className="space-y-1">
+                  {group.sessions.map((session) => (
+                    <SessionItem
+                      key={session.id}
+                      session={session}
+                      isActive={currentSessionId === session.id}
+                      allTags={allTags}
+                      exportOptions={EXPORT_OPTIONS}
+                      onSelect={() => onSelectSession(session)}
+                      onDelete={(e) => onDeleteSession(e, session.id)}
+                      onRename={(title) => onUpdateSession(session.id, { title, isTitleEdited: true })}
+                      onTogglePin={() => onUpdateSession(session.id, { pinned: !session.pinned })}
+                      onUpdateTags={(tags) => onUpdateSession(session.id, { tags })}
+                      onExport={(format) => onExportSessions([session.id], format)}
+                    />
+                  ))}
                 </div>
-              ))}
-            </div>
+              </div>
+            ))}
           </div>
         ) : (
           <div className="flex flex-col items-center justify-center h-40 text-center opacity-40 px-4">
@@ -74,19 +264,38 @@ export const Sidebar: React.FC<SidebarProps> = ({
           </div>
         )}
       </div>
+      )}
 
       {/* Footer Section */}
       <div className="border-t border-white/5 pt-4 mt-2">
-         <button className="w-full px-3 py-3 text-sm text-gray-300 flex items-center gap-3 hover:bg-white/5 rounded-xl transition-colors text-left group">
-           <div className="w-8 h-8 rounded-full bg-gradient-to-br from-indigo-500 to-purple-600 flex items-center justify-center text-xs font-bold text-white shadow-lg group-hover:shadow-indigo-500/20 transition-all">
-             <User size={16} />
+         <button
+           onClick={onOpenUsage}
+           className="w-full px-3 py-2 mb-1 text-sm text-gray-400 flex items-center gap-3 hover:bg-white/5 hover:text-gray-200 rounded-xl transition-colors text-left"
+         >
+           <BarChart3 size={16} />
+           Uso e custos
+         </button>
+         <button 
+           onClick={onOpenSettings}
+           className="w-full px-3 py-3 text-sm text-gray-300 flex items-center gap-3 hover:bg-white/5 rounded-xl transition-colors text-left group"
+           title="Configurações"
+         >
+           <div className="w-8 h-8 rounded-full overflow-hidden bg-gradient-to-br from-indigo-500 to-purple-600 flex items-center justify-center text-xs font-bold text-white shadow-lg group-hover:shadow-indigo-500/20 transition-all">
+             {settings.avatar ? (
+               <img src={settings.avatar} alt="" className="w-full h-full object-cover" />
+             ) : (
+               <User size={16} />
+             )}
            </div>
            <div className="flex-1 min-w-0">
              <div className="flex items-center gap-2">
-                <span className="font-medium text-gray-200 truncate">Saimon Santos</span>
-                <span className="px-1.5 py-0.5 text-[10px] font-bold text-amber-400 bg-amber-400/10 border border-amber-400/20 rounded leading-none">CEO</span>
+                <span className="font-medium text-gray-200 truncate">{settings.displayName || 'Usuário'}</span>
              </div>
-             <div className="text-xs text-gray-500 truncate">Pro</div>
+             {settings.apiKey ? (
+               <div className="text-xs text-gray-500 truncate">Chave de API configurada</div>
+             ) : (
+               <div className="text-xs text-amber-400 truncate">Configure sua chave de API</div>
+             )}
            </div>
            <Settings size={16} className="text-gray-500 group-hover:text-gray-300" />
          </button>
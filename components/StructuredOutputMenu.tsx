@@ -0,0 +1,70 @@
+import React, { useCallback, useRef, useState } from 'react';
+import { Braces, Check, Settings2 } from 'lucide-react';
+import { ResponseSchema } from '../types';
+import { useClickOutside } from '../hooks/useClickOutside';
+
+interface StructuredOutputMenuProps {
+  schemas: ResponseSchema[];
+  selected: ResponseSchema | null; // Esquema ativo na conversa (null para texto livre)
+  onChange: (schema: ResponseSchema | null) => void;
+  onManage: () => void;
+}
+
+export const StructuredOutputMenu: React.FC<StructuredOutputMenuProps> = ({ schemas, selected, onChange, onManage }) => {
+  const [isOpen, setIsOpen] = useState(false);
+  const menuRef = useRef<HTMLDivElement>(null);
+
+  const close = useCallback(() => setIsOpen(false), []);
+  useClickOutside(menuRef, close);
+
+  const select = (schema: ResponseSchema | null) => {
+    onChange(schema);
+    setIsOpen(false);
+  };
+
+  const optionClass = "w-full flex items-center gap-2 px-2.5 py-2 text-left text-sm text-gray-200 rounded-lg hover:bg-white/5 transition-colors";
+
+  return (
+    <div className="relative" ref={menuRef}>
+      <button
+        onClick={() => setIsOpen(!isOpen)}
+        className={`flex items-center gap-2 px-2.5 py-1.5 rounded-lg hover:bg-[#1f1f23] transition-colors text-xs ${
+          selected ? 'text-blue-300' : 'text-gray-400 hover:text-gray-200'
+        }`}
+        title="Formato da resposta"
+      >
+        <Braces size={14} />
+        {selected && <span className="max-w-[8rem] truncate">{selected.name}</span>}
+      </button>
+
+      {isOpen && (
+        <div className="absolute top-full left-0 mt-2 w-64 p-1.5 bg-[#18181b] border border-white/10 rounded-xl shadow-xl animate-in fade-in zoom-in-95 duration-100 origin-top-left z-50">
+          <div className="px-2.5 pt-1 pb-1.5 text-[11px] font-semibold text-gray-500 uppercase tracking-wider">Formato da resposta</div>
+          <button onClick={() => select(null)} className={optionClass}>
+            <span className="flex-1">Texto livre</span>
+            {!selected && <Check size={14} className="text-blue-400" />}
+          </button>
+          {schemas.map(schema => (
+            <button key={schema.id} onClick={() => select(schema)} className={optionClass}>
+              <span className="flex-1 truncate">JSON: {schema.name}</span>
+              {selected?.id === schema.id && <Check size={14} className="text-blue-400" />}
+            </button>
+          ))}
+          <div className="my-1 border-t border-white/5" />
+          <button
+            onClick={() => {
+              setIsOpen(false);
+              onManage();
+            }}
+            className="w-full flex items-center gap-2 px-2.5 py-2 text-left text-xs text-gray-400 hover:text-white rounded-lg hover:bg-white/5 transition-colors"
+          >
+            <Settings2 size={12} /> Gerenciar esquemas
+          </button>
+          <p className="px-2.5 pt-1 pb-1 text-[11px] text-gray-500 leading-relaxed">
+            Respostas em JSON não usam pesquisa na web nem ferramentas.
+          </p>
+        </div>
+      )}
+    </div>
+  );
+};
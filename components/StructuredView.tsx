@@ -0,0 +1,155 @@
+import React, { useMemo, useState } from 'react';
+import { AlertTriangle, Check, Copy, Download } from 'lucide-react';
+import { StructuredOutputResult } from '../types';
+import { formatCellValue, getDataTable, toCsv } from '../utils/structuredData';
+
+type View = 'tree' | 'table' | 'json';
+
+interface StructuredViewProps {
+  content: string;
+  result: StructuredOutputResult;
+  downloadName: string; // Nome base dos arquivos baixados
+  isIncomplete?: boolean; // Resposta interrompida antes do fim, sem validação
+}
+
+const downloadText = (text: string, fileName: string, mimeType: string) => {
+  const url = URL.createObjectURL(new Blob([text], { type: mimeType }));
+  const link = document.createElement('a');
+  link.href = url;
+  link.download = fileName;
+  link.click();
+  URL.revokeObjectURL(url);
+};
+
+const ScalarValue = ({ value }: { value: unknown }) => {
+  if (value === null) return <span className="text-gray-500">null</span>;
+  if (typeof value === 'string') return <span className="text-emerald-300">"{value}"</span>;
+  if (typeof value === 'number') return <span className="text-amber-300">{value}</span>;
+  return <span className="text-purple-300">{String(value)}</span>;
+};
+
+// Objects and arrays collapse with <details>, so the tree also works in exported HTML
+const JsonNode = ({ name, value, depth }: { name?: string, value: unknown, depth: number }) => {
+  const label = name !== undefined && <span className="text-blue-300">{name}: </span>;
+
+  if (value === null || typeof value !== 'object') {
+    return <div className="py-0.5">{label}<ScalarValue value={value} /></div>;
+  }
+
+  const entries = Array.isArray(value) ? value.map((item, i) => [String(i), item] as const) : Object.entries(value);
+  const summary = Array.isArray(value) ? `[${entries.length}]` : `{${entries.length}}`;
+
+  return (
+    <details open={depth < 2} className="group/node">
+      <summary className="py-0.5 cursor-pointer select-none list-none hover:bg-white/5 rounded">
+        <span className="inline-block w-3 text-gray-500 group-open/node:rotate-90 transition-transform">›</span>
+        {label}<span className="text-gray-500">{summary}</span>
+      </summary>
+      <div className="pl-4 border-l border-white/5 ml-1.5">
+        {entries.map(([key, item]) => <JsonNode key={key} name={key} value={item} depth={depth + 1} />)}
+      </div>
+    </details>
+  );
+};
+
+// Structured answer: validation status, tree/table/JSON views and copy/download as JSON or CSV
+export const StructuredView: React.FC<StructuredViewProps> = ({ content, result, downloadName, isIncomplete }) => {
+  const data = useMemo(() => {
+    try {
+      return { value: JSON.parse(content) as unknown };
+    } catch {
+      return null;
+    }
+  }, [content]);
+  const table = useMemo(() => (data ? getDataTable(data.value) : null), [data]);
+  const [view, setView] = useState<View>(table ? 'table' : data ? 'tree' : 'json');
+  const [isCopied, setIsCopied] = useState(false);
+
+  const formattedJson = data ? JSON.stringify(data.value, null, 2) : content;
+
+  const handleCopy = () => {
+    navigator.clipboard.writeText(formattedJson);
+    setIsCopied(true);
+    setTimeout(() => setIsCopied(false), 2000);
+  };
+
+  const tabClass = (tab: View) => `px-2.5 py-1 text-xs rounded-md transition-colors ${
+    view === tab ? 'bg-white/10 text-white' : 'text-gray-400 hover:text-gray-200'
+  }`;
+  const actionClass = "flex items-center gap-1.5 px-2 py-1 text-xs text-gray-400 hover:text-gray-200 bg-white/5 hover:bg-white/10 rounded-md transition-colors";
+
+  return (
+    <div className="rounded-xl border border-white/10 bg-[#0d0d0d] overflow-hidden">
+      {/* Toolbar */}
+      <div className="flex flex-wrap items-center justify-between gap-2 px-3 py-2 bg-[#1e1e21] border-b border-white/5">
+        <div className="flex items-center gap-1">
+          {data && <button onClick={() => setView('tree')} className={tabClass('tree')}>Árvore</button>}
+          {table && <button onClick={() => setView('table')} className={tabClass('table')}>Tabela</button>}
+          <button onClick={() => setView('json')} className={tabClass('json')}>JSON</button>
+          <span className="ml-2 text-[11px] text-gray-500 truncate">{result.schemaName}</span>
+        </div>
+        <div className="flex items-center gap-1">
+          <button onClick={handleCopy} className={actionClass} title="Copiar JSON">
+            {isCopied ? <Check size={12} className="text-green-400" /> : <Copy size={12} />} JSON
+          </button>
+          <button onClick={() => downloadText(formattedJson, `${downloadName}.json`, 'application/json')} className={actionClass} title="Baixar JSON">
+            <Download size={12} /> JSON
+          </button>
+          {table && (
+            <button onClick={() => downloadText(toCsv(table), `${downloadName}.csv`, 'text/csv')} className={actionClass} title="Baixar CSV">
+              <Download size={12} /> CSV
+            </button>
+          )}
+        </div>
+      </div>
+
+      {/* Validation */}
+      {isIncomplete && (
+        <div className="flex items-center gap-1.5 px-3 py-2 text-xs text-gray-400 bg-white/[0.03] border-b border-white/5">
+          <AlertTriangle size={12} /> Resposta interrompida: o JSON pode estar incompleto e não foi validado
+        </div>
+      )}
+      {!isIncomplete && result.errors.length > 0 && (
+        <div className="px-3 py-2 text-xs text-amber-300 bg-amber-500/10 border-b border-amber-500/20">
+          <div className="flex items-center gap-1.5 font-medium">
+            <AlertTriangle size={12} /> A resposta não segue o esquema
+          </div>
+          <ul className="mt-1 ml-5 list-disc space-y-0.5 text-amber-300/80">
+            {result.errors.map((error, idx) => <li key={idx}>{error}</li>)}
+          </ul>
+        </div>
+      )}
+
+      <div className="max-h-[32rem] overflow-auto text-xs font-mono">
+        {view === 'tree' && data && (
+          <div className="p-3 text-gray-300"><JsonNode value={data.value} depth={0} /></div>
+        )}
+
+        {view === 'table' && table && (
+          <table className="w-full border-collapse font-sans">
+            <thead>
+              <tr>
+                {table.columns.map(column => (
+                  <th key={column} className="sticky top-0 px-3 py-2 text-left font-semibold text-gray-300 bg-[#18181b] border-b border-white/10">{column}</th>
+                ))}
+              </tr>
+            </thead>
+            <tbody>
+              {table.rows.map((row, idx) => (
+                <tr key={idx} className="border-b border-white/5 hover:bg-white/[0.02]">
+                  {table.columns.map(column => (
+                    <td key={column} className="px-3 py-2 align-top text-gray-300">{formatCellValue(row[column])}</td>
+                  ))}
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        )}
+
+        {view === 'json' && (
+          <pre className="p-3 text-gray-300 whitespace-pre-wrap break-all">{formattedJson}</pre>
+        )}
+      </div>
+    </div>
+  );
+};
@@ -0,0 +1,64 @@
+import React, { useCallback, useRef, useState } from 'react';
+import { Brain, Check } from 'lucide-react';
+import { ThinkingLevel } from '../types';
+import { useClickOutside } from '../hooks/useClickOutside';
+
+const LEVEL_LABELS: Record<ThinkingLevel, { label: string, description: string }> = {
+  auto: { label: 'Padrão', description: 'O modelo decide quanto raciocinar.' },
+  off: { label: 'Desativado', description: 'Responde direto, mais rápido e barato.' },
+  low: { label: 'Baixo', description: 'Raciocínio curto para perguntas simples.' },
+  medium: { label: 'Médio', description: 'Equilíbrio entre qualidade e tempo.' },
+  high: { label: 'Alto', description: 'Mais raciocínio para problemas difíceis; demora e custa mais.' },
+};
+
+interface ThinkingMenuProps {
+  levels: ThinkingLevel[]; // Níveis aceitos pelo modelo atual
+  level: ThinkingLevel;
+  onChange: (level: ThinkingLevel) => void;
+}
+
+export const ThinkingMenu: React.FC<ThinkingMenuProps> = ({ levels, level, onChange }) => {
+  const [isOpen, setIsOpen] = useState(false);
+  const menuRef = useRef<HTMLDivElement>(null);
+
+  const close = useCallback(() => setIsOpen(false), []);
+  useClickOutside(menuRef, close);
+
+  // A level the model doesn't accept falls back to its default
+  const effectiveLevel = levels.includes(level) ? level : 'auto';
+
+  return (
+    <div className="relative" ref={menuRef}>
+      <button
+        onClick={() => setIsOpen(!isOpen)}
+        className="flex items-center gap-2 px-2.5 py-1.5 rounded-lg hover:bg-[#1f1f23] transition-colors text-xs text-gray-400 hover:text-gray-200"
+        title="Nível de raciocínio"
+      >
+        <Brain size={14} />
+        <span>{LEVEL_LABELS[effectiveLevel].label}</span>
+      </button>
+
+      {isOpen && (
+        <div className="absolute top-full left-0 mt-2 w-72 p-1.5 bg-[#18181b] border border-white/10 rounded-xl shadow-xl animate-in fade-in zoom-in-95 duration-100 origin-top-left z-50">
+          <div className="px-2.5 pt-1 pb-1.5 text-[11px] font-semibold text-gray-500 uppercase tracking-wider">Raciocínio</div>
+          {levels.map(option => (
+            <button
+              key={option}
+              onClick={() => {
+                onChange(option);
+                setIsOpen(false);
+              }}
+              className="w-full flex items-start gap-2 px-2.5 py-2 text-left rounded-lg hover:bg-white/5 transition-colors"
+            >
+              <div className="flex-1 min-w-0">
+                <div className="text-sm text-gray-200">{LEVEL_LABELS[option].label}</div>
+                <div className="text-[11px] text-gray-500 leading-snug">{LEVEL_LABELS[option].description}</div>
+              </div>
+              {option === effectiveLevel && <Check size={14} className="mt-0.5 text-blue-400" />}
+            </button>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+};
@@ -0,0 +1,63 @@
+import React, { useCallback, useRef, useState } from 'react';
+import { Wrench, Check } from 'lucide-react';
+import { BUILT_IN_TOOLS } from '../services/tools';
+import { useClickOutside } from '../hooks/useClickOutside';
+
+interface ToolsMenuProps {
+  enabledTools: string[];
+  onChange: (enabledTools: string[]) => void;
+}
+
+// Picks the local tools the model may call in the current conversation
+export const ToolsMenu: React.FC<ToolsMenuProps> = ({ enabledTools, onChange }) => {
+  const [isOpen, setIsOpen] = useState(false);
+  const menuRef = useRef<HTMLDivElement>(null);
+
+  const close = useCallback(() => setIsOpen(false), []);
+  useClickOutside(menuRef, close);
+
+  const toggleTool = (name: string) => {
+    onChange(enabledTools.includes(name) ? enabledTools.filter(n => n !== name) : [...enabledTools, name]);
+  };
+
+  return (
+    <div className="relative" ref={menuRef}>
+      <button
+        onClick={() => setIsOpen(!isOpen)}
+        className={`flex items-center gap-2 px-2.5 py-1.5 rounded-lg hover:bg-[#1f1f23] transition-colors text-xs ${
+          enabledTools.length > 0 ? 'text-blue-300' : 'text-gray-400 hover:text-gray-200'
+        }`}
+        title="Ferramentas disponíveis para o modelo"
+      >
+        <Wrench size={14} />
+        {enabledTools.length > 0 && <span className="tabular-nums">{enabledTools.length}</span>}
+      </button>
+
+      {isOpen && (
+        <div className="absolute top-full left-0 mt-2 w-72 p-2 bg-[#18181b] border border-white/10 rounded-xl shadow-xl animate-in fade-in zoom-in-95 duration-100 origin-top-left z-50">
+          <div className="px-2 pt-1 pb-2 text-[11px] font-semibold text-gray-500 uppercase tracking-wider">Ferramentas nesta conversa</div>
+          {BUILT_IN_TOOLS.map(tool => {
+            const isEnabled = enabledTools.includes(tool.name);
+            return (
+              <button
+                key={tool.name}
+                onClick={() => toggleTool(tool.name)}
+                className="w-full flex items-start gap-2.5 px-2 py-2 text-left rounded-lg hover:bg-white/5 transition-colors"
+              >
+                <div className={`mt-0.5 w-4 h-4 flex-shrink-0 flex items-center justify-center rounded border ${
+                  isEnabled ? 'bg-blue-500 border-blue-500 text-white' : 'border-white/20'
+                }`}>
+                  {isEnabled && <Check size={12} />}
+                </div>
+                <span className="text-sm text-gray-200">{tool.label}</span>
+              </button>
+            );
+          })}
+          <p className="px-2 pt-2 text-[11px] text-gray-500 leading-relaxed">
+            As ferramentas rodam no seu navegador. Enquanto alguma estiver ativa, a pesquisa na web fica desativada.
+          </p>
+        </div>
+      )}
+    </div>
+  );
+};
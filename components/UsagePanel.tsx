@@ -0,0 +1,273 @@
+import React, { useMemo, useState } from 'react';
+import { X, Trash2, RotateCcw } from 'lucide-react';
+import { AIModel, ChatSession, ModelPricing, TokenUsage } from '../types';
+import {
+  DailyUsage, loadUsageLog, clearUsageLog, addTokenUsage, getTotalTokens,
+  estimateCost, getModelPricing, formatTokens, formatCost, toDateKey
+} from '../services/usageService';
+
+interface UsagePanelProps {
+  sessions: ChatSession[];
+  models: AIModel[];
+  pricing: Record<string, ModelPricing>; // Preços personalizados
+  onSavePricing: (pricing: Record<string, ModelPricing>) => void;
+  onClose: () => void;
+}
+
+const CHART_DAYS = 14;
+
+interface UsageTotals {
+  usage: TokenUsage;
+  cost: number;
+  requests: number;
+}
+
+const EMPTY_TOTALS: UsageTotals = { usage: { promptTokens: 0, outputTokens: 0 }, cost: 0, requests: 0 };
+
+const SummaryCard: React.FC<{ label: string, totals: UsageTotals }> = ({ label, totals }) => (
+  <div className="p-3 bg-white/5 border border-white/5 rounded-xl">
+    <div className="text-xs text-gray-500">{label}</div>
+    <div className="text-lg font-semibold text-white mt-1 tabular-nums">{formatCost(totals.cost)}</div>
+    <div className="text-xs text-gray-500 tabular-nums">{formatTokens(getTotalTokens(totals.usage))} tokens · {totals.requests} resp.</div>
+  </div>
+);
+
+export const UsagePanel: React.FC<UsagePanelProps> = ({ sessions, models, pricing, onSavePricing, onClose }) => {
+  const [log, setLog] = useState<DailyUsage[]>(loadUsageLog);
+  const [draftPricing, setDraftPricing] = useState<Record<string, ModelPricing>>(pricing);
+
+  const getModelName = (modelId: string) => models.find(m => m.id === modelId)?.name ?? modelId;
+  const costOf = (modelId: string, usage: TokenUsage) => estimateCost(usage, getModelPricing(modelId, models, pricing));
+
+  const addEntry = (totals: UsageTotals, modelId: string, usage: TokenUsage, requests: number): UsageTotals => ({
+    usage: addTokenUsage(totals.usage, usage),
+    cost: totals.cost + costOf(modelId, usage),
+    requests: totals.requests + requests,
+  });
+
+  const { today, last30Days, allTime, byDay, byModel } = useMemo(() => {
+    const todayKey = toDateKey(new Date());
+    const monthStartKey = toDateKey(new Date(Date.now() - 29 * 24 * 60 * 60 * 1000));
+    const byDay = new Map<string, UsageTotals>();
+    const byModel = new Map<string, UsageTotals>();
+    let today = EMPTY_TOTALS, last30Days = EMPTY_TOTALS, allTime = EMPTY_TOTALS;
+
+    for (const entry of log) {
+      allTime = addEntry(allTime, entry.modelId, entry.usage, entry.requests);
+      if (entry.date >= monthStartKey) last30Days = addEntry(last30Days, entry.modelId, entry.usage, entry.requests);
+      if (entry.date === todayKey) today = addEntry(today, entry.modelId, entry.usage, entry.requests);
+      byDay.set(entry.date, addEntry(byDay.get(entry.date) ?? EMPTY_TOTALS, entry.modelId, entry.usage, entry.requests));
+      byModel.set(entry.modelId, addEntry(byModel.get(entry.modelId) ?? EMPTY_TOTALS, entry.modelId, entry.usage, entry.requests));
+    }
+    return { today, last30Days, allTime, byDay, byModel };
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [log, models, pricing]);
+
+  // Conversation totals come from the sessions, so deleted ones are not listed
+  const bySession = useMemo(() => sessions
+    .filter(s => s.usage && Object.keys(s.usage).length > 0)
+    .map(s => {
+      const entries = Object.entries(s.usage!);
+      return {
+        session: s,
+        tokens: entries.reduce((sum, [, usage]) => sum + getTotalTokens(usage), 0),
+        cost: entries.reduce((sum, [modelId, usage]) => sum + costOf(modelId, usage), 0),
+      };
+    })
+    .sort((a, b) => b.cost - a.cost || b.tokens - a.tokens),
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+    [sessions, models, pricing]);
+
+  const chartDays = Array.from({ length: CHART_DAYS }, (_, i) => {
+    const date = new Date(Date.now() - (CHART_DAYS - 1 - i) * 24 * 60 * 60 * 1000);
+    return { date, totals: byDay.get(toDateKey(date)) ?? EMPTY_TOTALS };
+  });
+  // Plot cost when there is any, tokens otherwise (free local models)
+  const chartByCost = chartDays.some(d => d.totals.cost > 0);
+  const chartValue = (totals: UsageTotals) => (chartByCost ? totals.cost : getTotalTokens(totals.usage));
+  const chartMax = Math.max(...chartDays.map(d => chartValue(d.totals)), Number.EPSILON);
+
+  const updatePrice = (model: AIModel, field: keyof ModelPricing, value: string) => {
+    const current = draftPricing[model.id] ?? model.pricing ?? { inputPerMillion: 0, outputPerMillion: 0 };
+    // An empty cached price means cached tokens are billed as regular input
+    const price = field === 'cachedInputPerMillion' && value === '' ? undefined : Math.max(0, parseFloat(value) || 0);
+    setDraftPricing(prev => ({ ...prev, [model.id]: { ...current, [field]: price } }));
+  };
+
+  const resetPrice = (modelId: string) => {
+    setDraftPricing(prev => {
+      const { [modelId]: _, ...rest } = prev;
+      return rest;
+    });
+  };
+
+  const handleClearLog = () => {
+    if (window.confirm("Zerar o registro de uso diário? As contagens salvas em cada conversa são mantidas.")) {
+      clearUsageLog();
+      setLog([]);
+    }
+  };
+
+  const sectionTitleClass = "text-xs font-semibold text-gray-500 uppercase tracking-wider mb-3";
+  const priceInputClass = "w-20 px-2 py-1 text-xs text-right bg-white/5 border border-white/10 focus:border-white/20 rounded-md text-gray-100 focus:outline-none tabular-nums";
+
+  return (
+    <div className="fixed inset-0 z-50 flex items-center justify-center p-4 bg-black/60 backdrop-blur-sm" onClick={onClose}>
+      <div
+        onClick={(e) => e.stopPropagation()}
+        className="w-full max-w-2xl max-h-[90vh] flex flex-col bg-[#18181b] border border-white/10 rounded-2xl shadow-2xl animate-in fade-in zoom-in-95 duration-150"
+      >
+        {/* Header */}
+        <div className="flex items-center justify-between px-6 py-4 border-b border-white/5">
+          <h2 className="text-lg font-semibold text-white">Uso e custos</h2>
+          <button onClick={onClose} className="p-1.5 text-gray-400 hover:text-white rounded-lg hover:bg-white/5 transition-colors" title="Fechar">
+            <X size={18} />
+          </button>
+        </div>
+
+        <div className="flex-1 overflow-y-auto p-6 space-y-8">
+          {/* Totals */}
+          <section className="grid grid-cols-3 gap-3">
+            <SummaryCard label="Hoje" totals={today} />
+            <SummaryCard label="Últimos 30 dias" totals={last30Days} />
+            <SummaryCard label="Total" totals={allTime} />
+          </section>
+
+          {/* By Day */}
+          <section>
+            <div className={sectionTitleClass}>Últimos {CHART_DAYS} dias ({chartByCost ? 'custo' : 'tokens'})</div>
+            <div className="flex items-end gap-1 h-24">
+              {chartDays.map(({ date, totals }) => (
+                <div
+                  key={date.toISOString()}
+                  className="flex-1 h-full flex flex-col justify-end"
+                  title={`${date.toLocaleDateString('pt-BR')}: ${formatCost(totals.cost)} · ${formatTokens(getTotalTokens(totals.usage))} tokens`}
+                >
+                  <div
+                    className="w-full bg-blue-500/60 hover:bg-blue-400 rounded-t transition-colors"
+                    style={{ height: `${(chartValue(totals) / chartMax) * 100}%`, minHeight: chartValue(totals) > 0 ? 2 : 0 }}
+                  />
+                </div>
+              ))}
+            </div>
+            <div className="flex justify-between mt-1 text-[10px] text-gray-600">
+              <span>{chartDays[0].date.toLocaleDateString('pt-BR', { day: '2-digit', month: '2-digit' })}</span>
+              <span>Hoje</span>
+            </div>
+          </section>
+
+          {/* By Model */}
+          <section>
+            <div className={sectionTitleClass}>Por modelo</div>
+            {byModel.size === 0 ? (
+              <p className="text-sm text-gray-500">Nenhum uso registrado ainda.</p>
+            ) : (
+              <table className="w-full text-sm">
+                <thead>
+                  <tr className="text-xs text-gray-500 text-right">
+                    <th className="text-left font-medium pb-2">Modelo</th>
+                    <th className="font-medium pb-2">Resp.</th>
+                    <th className="font-medium pb-2">Entrada</th>
+                    <th className="font-medium pb-2">Saída</th>
+                    <th className="font-medium pb-2">Custo</th>
+                  </tr>
+                </thead>
+                <tbody className="tabular-nums">
+                  {[...byModel.entries()].sort((a, b) => b[1].cost - a[1].cost).map(([modelId, totals]) => (
+                    <tr key={modelId} className="text-right text-gray-300 border-t border-white/5">
+                      <td className="text-left py-2">
+                        {getModelName(modelId)}
+                        {models.find(m => m.id === modelId)?.isPro && (
+                          <span className="ml-2 px-1.5 py-0.5 text-[10px] font-semibold text-amber-300 bg-amber-500/10 rounded">PRO</span>
+                        )}
+                      </td>
+                      <td>{totals.requests}</td>
+                      <td>{formatTokens(totals.usage.promptTokens)}</td>
+                      <td>{formatTokens(totals.usage.outputTokens + (totals.usage.thinkingTokens ?? 0))}</td>
+                      <td className="text-white">{formatCost(totals.cost)}</td>
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+            )}
+          </section>
+
+          {/* By Conversation */}
+          <section>
+            <div className={sectionTitleClass}>Por conversa</div>
+            {bySession.length === 0 ? (
+              <p className="text-sm text-gray-500">Nenhuma conversa com uso registrado.</p>
+            ) : (
+              <div className="space-y-1">
+                {bySession.slice(0, 20).map(({ session, tokens, cost }) => (
+                  <div key={session.id} className="flex items-center gap-3 py-1.5 text-sm border-t border-white/5 first:border-t-0">
+                    <span className="flex-1 truncate text-gray-300">{session.title}</span>
+                    <span className="text-xs text-gray-500 tabular-nums">{formatTokens(tokens)} tokens</span>
+                    <span className="w-16 text-right text-white tabular-nums">{formatCost(cost)}</span>
+                  </div>
+                ))}
+              </div>
+            )}
+          </section>
+
+          {/* Price Table */}
+          <section>
+            <div className={sectionTitleClass}>Preços (US$ por milhão de tokens)</div>
+            <table className="w-full text-sm">
+              <thead>
+                <tr className="text-xs text-gray-500 text-right">
+                  <th className="text-left font-medium pb-2">Modelo</th>
+                  <th className="font-medium pb-2">Entrada</th>
+                  <th className="font-medium pb-2">Em cache</th>
+                  <th className="font-medium pb-2">Saída</th>
+                  <th className="pb-2" />
+                </tr>
+              </thead>
+              <tbody>
+                {models.map(model => {
+                  const price = draftPricing[model.id] ?? model.pricing;
+                  return (
+                    <tr key={model.id} className="text-right border-t border-white/5">
+                      <td className="text-left py-1.5 text-gray-300 truncate max-w-[10rem]">{model.name}</td>
+                      <td><input type="number" min={0} step={0.01} value={price?.inputPerMillion ?? 0} onChange={(e) => updatePrice(model, 'inputPerMillion', e.target.value)} className={priceInputClass} /></td>
+                      <td><input type="number" min={0} step={0.01} value={price?.cachedInputPerMillion ?? ''} placeholder="—" onChange={(e) => updatePrice(model, 'cachedInputPerMillion', e.target.value)} className={priceInputClass} /></td>
+                      <td><input type="number" min={0} step={0.01} value={price?.outputPerMillion ?? 0} onChange={(e) => updatePrice(model, 'outputPerMillion', e.target.value)} className={priceInputClass} /></td>
+                      <td className="w-8">
+                        {draftPricing[model.id] && (
+                          <button onClick={() => resetPrice(model.id)} className="p-1 text-gray-500 hover:text-white transition-colors" title="Restaurar preço padrão">
+                            <RotateCcw size={12} />
+                          </button>
+                        )}
+                      </td>
+                    </tr>
+                  );
+                })}
+              </tbody>
+            </table>
+            <p className="text-xs text-gray-500 mt-2 leading-relaxed">
+              Os custos são estimativas com base nestes preços e nos tokens informados pela API.
+            </p>
+          </section>
+        </div>
+
+        {/* Footer */}
+        <div className="flex items-center justify-between gap-2 px-6 py-4 border-t border-white/5">
+          <button
+            onClick={handleClearLog}
+            disabled={log.length === 0}
+            className="flex items-center gap-2 text-xs text-red-400 hover:text-red-300 transition-colors disabled:opacity-30"
+          >
+            <Trash2 size={12} /> Zerar registro diário
+          </button>
+          <button
+            onClick={() => onSavePricing(draftPricing)}
+            disabled={draftPricing === pricing}
+            className="px-4 py-2 text-sm font-medium text-black bg-white hover:bg-gray-200 rounded-lg transition-colors disabled:opacity-40"
+          >
+            Salvar preços
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+};
@@ -0,0 +1,69 @@
+import React, { useCallback, useRef, useState } from 'react';
+import { Globe, Check } from 'lucide-react';
+import { WebSearchMode } from '../types';
+import { useClickOutside } from '../hooks/useClickOutside';
+
+const MODES: { mode: WebSearchMode, label: string, description: string }[] = [
+  { mode: 'auto', label: 'Automática', description: 'O modelo decide quando pesquisar e lê os links da mensagem.' },
+  { mode: 'on', label: 'Pedir pesquisa', description: 'Pede ao modelo que baseie a resposta em resultados da web; ele ainda pode não pesquisar.' },
+  { mode: 'off', label: 'Desativada', description: 'Responde sem acessar a web.' },
+];
+
+interface WebSearchToggleProps {
+  mode: WebSearchMode;
+  onChange: (mode: WebSearchMode) => void;
+  hasLocalTools?: boolean; // Ferramentas locais ativadas, que não podem ser combinadas com a web
+}
+
+// Web search choice for the next message
+export const WebSearchToggle: React.FC<WebSearchToggleProps> = ({ mode, onChange, hasLocalTools }) => {
+  const [isOpen, setIsOpen] = useState(false);
+  const menuRef = useRef<HTMLDivElement>(null);
+
+  const close = useCallback(() => setIsOpen(false), []);
+  useClickOutside(menuRef, close);
+
+  const current = MODES.find(m => m.mode === mode)!;
+
+  return (
+    <div className="relative mb-0.5" ref={menuRef}>
+      <button
+        onClick={() => setIsOpen(!isOpen)}
+        className={`relative p-3 transition-colors rounded-xl hover:bg-white/5 ${
+          mode === 'on' ? 'text-blue-400 hover:text-blue-300' : mode === 'off' ? 'text-gray-600 hover:text-gray-400' : 'text-gray-400 hover:text-white'
+        }`}
+        title={`Pesquisa na web: ${current.label}`}
+      >
+        <Globe size={20} />
+        {mode === 'off' && <span className="absolute left-1/2 top-1/2 w-6 h-0.5 bg-current rotate-45 -translate-x-1/2 -translate-y-1/2 rounded-full" />}
+      </button>
+
+      {isOpen && (
+        <div className="absolute bottom-full left-0 mb-2 w-64 p-1.5 bg-[#18181b] border border-white/10 rounded-xl shadow-xl animate-in fade-in zoom-in-95 duration-100 origin-bottom-left z-50">
+          <div className="px-2.5 pt-1 pb-1.5 text-[11px] font-semibold text-gray-500 uppercase tracking-wider">Pesquisa na web</div>
+          {MODES.map(option => (
+            <button
+              key={option.mode}
+              onClick={() => {
+                onChange(option.mode);
+                setIsOpen(false);
+              }}
+              className="w-full flex items-start gap-2 px-2.5 py-2 text-left rounded-lg hover:bg-white/5 transition-colors"
+            >
+              <div className="flex-1 min-w-0">
+                <div className="text-sm text-gray-200">{option.label}</div>
+                <div className="text-[11px] text-gray-500 leading-snug">{option.description}</div>
+              </div>
+              {option.mode === mode && <Check size={14} className="mt-0.5 text-blue-400" />}
+            </button>
+          ))}
+          {hasLocalTools && (
+            <p className="px-2.5 pt-1.5 pb-1 mt-1 border-t border-white/5 text-[11px] text-amber-300/80 leading-relaxed">
+              As ferramentas ativadas não funcionam junto com a web: no modo automático o modelo não pesquisa, e pedir pesquisa desativa as ferramentas nesta mensagem.
+            </p>
+          )}
+        </div>
+      )}
+    </div>
+  );
+};
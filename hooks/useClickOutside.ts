@@ -0,0 +1,14 @@
+import { RefObject, useEffect } from 'react';
+
+// Calls `onOutside` when a mousedown happens outside the referenced element
+export const useClickOutside = (ref: RefObject<HTMLElement | null>, onOutside: () => void) => {
+  useEffect(() => {
+    const handleClickOutside = (event: MouseEvent) => {
+      if (ref.current && !ref.current.contains(event.target as Node)) {
+        onOutside();
+      }
+    };
+    document.addEventListener('mousedown', handleClickOutside);
+    return () => document.removeEventListener('mousedown', handleClickOutside);
+  }, [ref, onOutside]);
+};
@@ -0,0 +1,209 @@
+import { useEffect, useRef, useState } from 'react';
+import { Attachment } from '../types';
+import { readFileAsAttachment } from '../utils/attachments';
+import { getRecordingMimeType, needsTranscoding, transcodeToWav } from '../utils/audio';
+
+/**
+ * Dictation for the message box.
+ * With a `transcribe` function the microphone is recorded and the audio transcribed by a model;
+ * otherwise the browser's speech recognition is used, where available.
+ */
+
+export type VoiceInputStatus = 'idle' | 'recording' | 'transcribing';
+
+interface VoiceInputOptions {
+  transcribe?: (audio: Attachment) => Promise<string>;
+  onTranscript: (text: string) => void;
+}
+
+// Keeps recordings well under the inline audio limit
+const MAX_RECORDING_SECONDS = 300;
+
+// The parts of the Web Speech API used here (not in TypeScript's DOM types)
+interface SpeechRecognitionResultEvent {
+  resultIndex: number;
+  results: ArrayLike<{ isFinal: boolean, 0: { transcript: string } }>;
+}
+
+interface SpeechRecognition {
+  lang: string;
+  continuous: boolean;
+  interimResults: boolean;
+  onresult: ((event: SpeechRecognitionResultEvent) => void) | null;
+  onerror: ((event: { error: string }) => void) | null;
+  onend: (() => void) | null;
+  start: () => void;
+  stop: () => void;
+  abort: () => void;
+}
+
+type SpeechRecognitionConstructor = new () => SpeechRecognition;
+type SpeechWindow = Window & { SpeechRecognition?: SpeechRecognitionConstructor, webkitSpeechRecognition?: SpeechRecognitionConstructor };
+
+const speechWindow = typeof window !== 'undefined' ? window as SpeechWindow : undefined;
+const SpeechRecognitionApi = speechWindow?.SpeechRecognition ?? speechWindow?.webkitSpeechRecognition;
+
+// Takes a getUserMedia exception or a speech recognition error code
+const getMicrophoneError = (error: unknown) => {
+  const code = error instanceof Error ? error.name : error;
+  if (code === 'NotAllowedError' || code === 'not-allowed') {
+    return "Permissão para usar o microfone negada. Libere o acesso nas configurações do navegador.";
+  }
+  if (code === 'NotFoundError' || code === 'audio-capture') {
+    return "Nenhum microfone encontrado.";
+  }
+  return "Não foi possível usar o microfone. Tente novamente.";
+};
+
+export const useVoiceInput = (options: VoiceInputOptions) => {
+  const [status, setStatus] = useState<VoiceInputStatus>('idle');
+  const [elapsedSeconds, setElapsedSeconds] = useState(0);
+  const [error, setError] = useState<string | null>(null);
+
+  const optionsRef = useRef(options);
+  optionsRef.current = options;
+  const recorderRef = useRef<MediaRecorder | null>(null);
+  const recognitionRef = useRef<SpeechRecognition | null>(null);
+  const timerRef = useRef<number | null>(null);
+  // Identifies the current recording; cancelling or starting another one makes late results from earlier ones stale
+  const recordingIdRef = useRef(0);
+
+  const isSupported = options.transcribe
+    ? typeof MediaRecorder !== 'undefined' && !!navigator.mediaDevices?.getUserMedia
+    : !!SpeechRecognitionApi;
+
+  const stopTimer = () => {
+    if (timerRef.current !== null) {
+      clearInterval(timerRef.current);
+      timerRef.current = null;
+    }
+  };
+
+  const isCurrent = (recordingId: number) => recordingIdRef.current === recordingId;
+
+  const deliver = (recordingId: number, text: string) => {
+    if (isCurrent(recordingId) && text.trim()) {
+      optionsRef.current.onTranscript(text.trim());
+    }
+  };
+
+  const startRecording = async (recordingId: number, transcribe: (audio: Attachment) => Promise<string>) => {
+    const stream = await navigator.mediaDevices.getUserMedia({ audio: true });
+    const preferredType = getRecordingMimeType();
+    const recorder = new MediaRecorder(stream, preferredType ? { mimeType: preferredType } : undefined);
+    const chunks: Blob[] = [];
+
+    recorder.ondataavailable = (e) => chunks.push(e.data);
+    recorder.onstop = async () => {
+      stream.getTracks().forEach(track => track.stop());
+      recorderRef.current = null;
+      if (!isCurrent(recordingId)) return;
+
+      setStatus('transcribing');
+      try {
+        const recording = new Blob(chunks, { type: recorder.mimeType || 'audio/webm' });
+        // Codec parameters ("audio/ogg;codecs=opus") are not accepted as an inline MIME type
+        const file = needsTranscoding(recording.type)
+          ? new File([await transcodeToWav(recording)], 'gravacao.wav', { type: 'audio/wav' })
+          : new File([recording], 'gravacao', { type: recording.type.split(';')[0] });
+        const audio = await readFileAsAttachment(file);
+        deliver(recordingId, await transcribe(audio));
+      } catch (err) {
+        console.error("Transcription failed", err);
+        if (isCurrent(recordingId)) {
+          setError("Não foi possível transcrever o áudio. Tente novamente.");
+        }
+      } finally {
+        if (isCurrent(recordingId)) setStatus('idle');
+      }
+    };
+
+    recorder.start();
+    recorderRef.current = recorder;
+  };
+
+  const startRecognition = (recordingId: number) => {
+    const recognition = new SpeechRecognitionApi!();
+    recognition.lang = navigator.language;
+    recognition.continuous = true;
+    recognition.interimResults = false;
+
+    let transcript = '';
+    recognition.onresult = (e) => {
+      for (let i = e.resultIndex; i < e.results.length; i++) {
+        if (e.results[i].isFinal) transcript += `${e.results[i][0].transcript} `;
+      }
+    };
+    recognition.onerror = (e) => {
+      if (isCurrent(recordingId) && e.error !== 'aborted' && e.error !== 'no-speech') setError(getMicrophoneError(e.error));
+    };
+    // Also fires when the browser stops listening by itself after a silence
+    recognition.onend = () => {
+      if (!isCurrent(recordingId)) return;
+      stopTimer();
+      recognitionRef.current = null;
+      setStatus('idle');
+      deliver(recordingId, transcript);
+    };
+
+    recognition.start();
+    recognitionRef.current = recognition;
+  };
+
+  const start = async () => {
+    if (status !== 'idle' || !isSupported) return;
+    setError(null);
+    const recordingId = ++recordingIdRef.current;
+
+    try {
+      const { transcribe } = optionsRef.current;
+      if (transcribe) {
+        await startRecording(recordingId, transcribe);
+      } else {
+        startRecognition(recordingId);
+      }
+    } catch (err) {
+      console.error("Could not start voice input", err);
+      setError(getMicrophoneError(err));
+      return;
+    }
+
+    const startedAt = Date.now();
+    setElapsedSeconds(0);
+    setStatus('recording');
+    timerRef.current = window.setInterval(() => setElapsedSeconds(Math.floor((Date.now() - startedAt) / 1000)), 250);
+  };
+
+  // Finishes the recording and transcribes it
+  const stop = () => {
+    stopTimer();
+    recorderRef.current?.stop();
+    recognitionRef.current?.stop();
+  };
+
+  // Discards the recording (or a transcription in progress)
+  const cancel = () => {
+    recordingIdRef.current++;
+    stopTimer();
+    recorderRef.current?.stop();
+    recognitionRef.current?.abort();
+    recognitionRef.current = null;
+    setStatus('idle');
+  };
+
+  useEffect(() => {
+    if (status === 'recording' && elapsedSeconds >= MAX_RECORDING_SECONDS) {
+      stop();
+    }
+  }, [status, elapsedSeconds]);
+
+  // Releases the microphone if the input goes away mid-recording
+  useEffect(() => () => {
+    recordingIdRef.current++;
+    stopTimer();
+    recorderRef.current?.stop();
+    recognitionRef.current?.abort();
+  }, []);
+
+  return { status, elapsedSeconds, error, isSupported, start, stop, cancel, clearError: () => setError(null) };
+};
@@ -0,0 +1,71 @@
+import { ChatErrorKind } from "../types";
+
+/**
+ * Classification of errors raised while talking to a model.
+ * Each category gets its own explanation for the user, and transient ones
+ * (rate limits, overloaded servers, dropped connections) are retried automatically.
+ */
+
+export interface ChatErrorInfo {
+  kind: ChatErrorKind;
+  message: string; // Explicação para o usuário
+  isTransient: boolean;
+}
+
+export const MAX_RETRIES = 3;
+const BASE_RETRY_DELAY_MS = 1000;
+const MAX_RETRY_DELAY_MS = 10000;
+
+const ERROR_MESSAGES: Record<ChatErrorKind, string> = {
+  'missing-key': "Nenhuma chave de API configurada para este provedor. Adicione-a nas configurações.",
+  'auth': "A chave de API foi recusada. Verifique se ela está correta e ativa nas configurações.",
+  'rate-limit': "O limite de requisições ou a cota da API foi atingido. Aguarde um pouco e tente novamente.",
+  'server': "O serviço do modelo está indisponível ou sobrecarregado no momento. Tente novamente em instantes.",
+  'network': "A conexão com o servidor falhou. Verifique sua internet e tente novamente.",
+  'safety': "A resposta foi bloqueada pelos filtros de segurança do modelo. Tente reformular sua mensagem.",
+  'invalid-request': "O modelo não aceitou a solicitação. Verifique os anexos ou tente outro modelo.",
+  'unknown': "Desculpe, ocorreu um erro ao processar sua solicitação. Por favor, tente novamente.",
+};
+
+const TRANSIENT_KINDS: ChatErrorKind[] = ['rate-limit', 'server', 'network'];
+
+// Errors raised by the app itself carry their category
+export const createChatError = (kind: ChatErrorKind, message: string) => Object.assign(new Error(message), { kind });
+
+const getErrorKind = (error: any): ChatErrorKind => {
+  if (error?.kind && error.kind in ERROR_MESSAGES) return error.kind;
+
+  const status: number | undefined = typeof error?.status === 'number' ? error.status : undefined;
+  const message = String(error?.message ?? error ?? '');
+
+  // Upper case codes are the status names used by Google APIs
+  if (status === 401 || status === 403 || /API key not valid|API_KEY_INVALID|PERMISSION_DENIED|UNAUTHENTICATED/.test(message)) return 'auth';
+  if (status === 429 || /RESOURCE_EXHAUSTED/.test(message) || /rate limit|quota/i.test(message)) return 'rate-limit';
+  if ((status !== undefined && status >= 500) || /UNAVAILABLE|INTERNAL|DEADLINE_EXCEEDED/.test(message) || /overloaded/i.test(message)) return 'server';
+  if (status === 400 || status === 404 || status === 413 || /INVALID_ARGUMENT|FAILED_PRECONDITION/.test(message)) return 'invalid-request';
+  // fetch rejects with a TypeError when the connection fails or drops, worded differently by each browser
+  // (Chrome, Safari, Firefox); other TypeErrors are bugs and must not be retried
+  if (/failed to fetch|load failed|NetworkError|network error|ECONNRESET/i.test(message)) return 'network';
+  return 'unknown';
+};
+
+export const classifyError = (error: unknown): ChatErrorInfo => {
+  const kind = getErrorKind(error);
+  return { kind, message: ERROR_MESSAGES[kind], isTransient: TRANSIENT_KINDS.includes(kind) };
+};
+
+// Exponential backoff with jitter, so clients that failed together don't retry together
+export const getRetryDelay = (attempt: number) => {
+  const delay = Math.min(MAX_RETRY_DELAY_MS, BASE_RETRY_DELAY_MS * 2 ** attempt);
+  return delay / 2 + Math.random() * (delay / 2);
+};
+
+// Resolves after `ms`, or rejects as soon as the signal is aborted
+export const wait = (ms: number, signal?: AbortSignal) => new Promise<void>((resolve, reject) => {
+  if (signal?.aborted) return reject(signal.reason);
+  const timer = setTimeout(resolve, ms);
+  signal?.addEventListener('abort', () => {
+    clearTimeout(timer);
+    reject(signal.reason);
+  }, { once: true });
+});
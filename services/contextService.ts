@@ -0,0 +1,117 @@
+import { AIModel, ContextSummary, Message, Persona, Role } from "../types";
+import { PROVIDERS, ChatHistoryEntry, createChat } from "./providers";
+import { BACKGROUND_MODEL_ID, GEMINI_MODELS, hasApiKey } from "./geminiService";
+
+/**
+ * Keeps long conversations within the model's context window.
+ * Once the history gets close to the limit, older turns are folded into a summary
+ * that is sent in their place, while the most recent turns stay verbatim.
+ */
+
+// Share of the context window that triggers the automatic summary
+export const SUMMARY_THRESHOLD = 0.8;
+
+// Messages always sent as they are (three exchanges)
+const RECENT_MESSAGES_KEPT = 6;
+
+// Used for models that do not declare their limit (e.g. local servers)
+const DEFAULT_CONTEXT_WINDOW = 32768;
+
+// Rough estimate for providers that cannot count tokens
+const CHARS_PER_TOKEN = 4;
+const TOKENS_PER_IMAGE = 258;
+
+const SUMMARIZER_PERSONA: Persona = {
+  id: 'context-summarizer',
+  name: 'Resumo',
+  icon: 'bot',
+  systemInstruction: `Você resume conversas entre um usuário e um assistente de IA.
+Preserve fatos, decisões, preferências do usuário, nomes, números e trechos de código ainda relevantes.
+Escreva em tópicos curtos, no idioma da conversa, sem comentários sobre o próprio resumo.`,
+  temperature: 0.2,
+};
+
+export const getContextWindow = (model: AIModel) => model.contextWindow ?? DEFAULT_CONTEXT_WINDOW;
+
+const estimateTokens = (history: ChatHistoryEntry[]) => {
+  return history.reduce((total, entry) => total + entry.parts.reduce((sum, part) => (
+    sum + ('text' in part ? Math.ceil(part.text.length / CHARS_PER_TOKEN) : TOKENS_PER_IMAGE)
+  ), 0), 0);
+};
+
+// Identifies a history by what is sent, so an unchanged one isn't counted again (files by type and size)
+export const getHistoryKey = (model: AIModel, history: ChatHistoryEntry[]) => JSON.stringify([
+  model.id,
+  history.map(entry => [entry.role, entry.parts.map(part => ('text' in part ? part.text : `${part.inlineData.mimeType}:${part.inlineData.data.length}`))]),
+]);
+
+export const countHistoryTokens = async (model: AIModel, history: ChatHistoryEntry[]): Promise<number> => {
+  const provider = PROVIDERS[model.provider ?? 'gemini'];
+  if (provider.countTokens) {
+    try {
+      return await provider.countTokens(model, history);
+    } catch (error) {
+      // Counting is only informative: an estimate is good enough when the API is unavailable
+      console.warn("Token counting failed, using an estimate", error);
+    }
+  }
+  return estimateTokens(history);
+};
+
+// The summary only applies to branches that go through the last message it covers
+export const getActiveSummary = (thread: Message[], summary?: ContextSummary) => {
+  return summary && thread.some(m => m.id === summary.upToMessageId) ? summary : undefined;
+};
+
+/**
+ * Returns the messages of a thread that are not summarized yet and no longer recent,
+ * or null when there is nothing new to fold into the summary.
+ */
+export const getMessagesToSummarize = (thread: Message[], summary?: ContextSummary) => {
+  const activeSummary = getActiveSummary(thread, summary);
+  const start = activeSummary ? thread.findIndex(m => m.id === activeSummary.upToMessageId) + 1 : 0;
+
+  // End on a model answer so the verbatim part starts with a user message
+  let end = thread.length - RECENT_MESSAGES_KEPT;
+  while (end > start && thread[end - 1].role !== Role.Model) end--;
+
+  if (end <= start) return null;
+  return { messages: thread.slice(start, end), previousSummary: activeSummary?.content };
+};
+
+const toTranscript = (messages: Message[]) => messages
+  .filter(m => !m.isError)
+  .map(m => {
+    const files = [...(m.attachments ?? []).map(a => a.name), ...(m.images ?? []).map(() => 'imagem gerada')];
+    const speaker = m.role === Role.User ? 'Usuário' : 'Assistente';
+    return `${speaker}: ${m.content}${files.length > 0 ? ` [anexos: ${files.join(', ')}]` : ''}`;
+  })
+  .join('\n\n');
+
+/**
+ * Summarizes messages (on top of an existing summary, if any).
+ * Gemini conversations use the lightweight background model; other providers use the chat's own model.
+ */
+export const summarizeMessages = async (model: AIModel, messages: Message[], previousSummary?: string): Promise<string> => {
+  const isGemini = (model.provider ?? 'gemini') === 'gemini';
+  const summaryModel = isGemini && hasApiKey()
+    ? GEMINI_MODELS.find(m => m.id === BACKGROUND_MODEL_ID) ?? model
+    : model;
+
+  const prompt = `${previousSummary ? `Resumo anterior:\n${previousSummary}\n\n` : ''}Conversa:\n${toTranscript(messages)}
+
+Escreva um resumo ${previousSummary ? 'atualizado, combinando o resumo anterior com a conversa acima' : 'da conversa acima'}.`;
+
+  let summary = '';
+  // No local tools and no web access: the summary must only reflect the conversation (and not pay for searches)
+  const chat = createChat(summaryModel, [], SUMMARIZER_PERSONA, { tools: [] });
+  for await (const event of chat.sendMessageStream(prompt, [], undefined, { webSearch: 'off' })) {
+    if (event.type === 'text') summary += event.text;
+  }
+
+  summary = summary.trim();
+  if (!summary) {
+    throw new Error("The model returned an empty summary");
+  }
+  return summary;
+};
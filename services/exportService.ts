@@ -0,0 +1,278 @@
+import { createElement } from 'react';
+import { renderToStaticMarkup } from 'react-dom/server';
+import { ChatMessage } from '../components/ChatMessage';
+import { ChatSession, Message, Role } from '../types';
+import { getThread } from '../utils/messageTree';
+import { upgradeLegacyFiles } from '../utils/attachments';
+import { getToolLabel } from './tools';
+import { getCitedSources, insertCitations } from '../utils/citations';
+
+/**
+ * Export and import of conversations.
+ * JSON is the lossless format (all branches, attachments and generated images)
+ * and the only one that can be imported back; Markdown and HTML export the
+ * currently selected branch for reading.
+ */
+
+export type ExportFormat = 'markdown' | 'json' | 'html';
+
+const EXPORT_FORMAT_ID = 'gemini-chat-export';
+// Version 2 stores attachments as typed files and version 3 several generated images per message;
+// older files (image data URLs, a single `image`) are still accepted
+const EXPORT_VERSION = 3;
+
+interface ExportFile {
+  format: typeof EXPORT_FORMAT_ID;
+  version: number;
+  exportedAt: string;
+  sessions: ChatSession[];
+}
+
+const FILE_EXTENSIONS: Record<ExportFormat, string> = {
+  markdown: 'md',
+  json: 'json',
+  html: 'html',
+};
+
+const MIME_TYPES: Record<ExportFormat, string> = {
+  markdown: 'text/markdown',
+  json: 'application/json',
+  html: 'text/html',
+};
+
+const getSelectedThread = (session: ChatSession): Message[] => {
+  return getThread(session.messages, session.activeLeafId ?? session.messages[session.messages.length - 1]?.id);
+};
+
+const escapeHtml = (text: string) => {
+  return text
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;');
+};
+
+const sessionToMarkdown = (session: ChatSession): string => {
+  const lines: string[] = [`# ${session.title}`, ''];
+
+  for (const message of getSelectedThread(session)) {
+    if (message.isError) continue;
+
+    lines.push(`## ${message.role === Role.User ? 'Você' : 'Gemini'}`, '');
+    if (message.attachments && message.attachments.length > 0) {
+      lines.push(`_Anexos: ${message.attachments.map(a => a.name).join(', ')}_`, '');
+    }
+    if (message.toolCalls && message.toolCalls.length > 0) {
+      lines.push(`_Ferramentas usadas: ${message.toolCalls.map(call => getToolLabel(call.name)).join(', ')}_`, '');
+    }
+    // Citations link straight to their source and keep the numbers of the list below
+    const { sources } = getCitedSources(message.groundingMetadata);
+    if (message.content && message.structuredOutput) {
+      lines.push('```json', message.content, '```', '');
+    } else if (message.content) {
+      lines.push(insertCitations(message.content, message.groundingMetadata, numbers => (
+        numbers.map(n => `[[${n}]](${sources[n - 1].uri})`).join('')
+      )), '');
+    }
+    if (message.images && message.images.length > 0) {
+      lines.push(`_${message.images.length} imagem(ns) gerada(s) (disponível na exportação JSON)_`, '');
+    }
+
+    const queries = message.groundingMetadata?.webSearchQueries ?? [];
+    if (queries.length > 0) {
+      lines.push(`_Pesquisas: ${queries.join(' · ')}_`, '');
+    }
+    if (sources.length > 0) {
+      lines.push('**Fontes:**', '');
+      sources.forEach((source, idx) => lines.push(`${idx + 1}. [${source.title || source.uri}](${source.uri})`));
+      lines.push('');
+    }
+  }
+
+  return lines.join('\n');
+};
+
+// Reuses the styles currently in the page (custom CSS and the generated Tailwind rules)
+const collectPageStyles = (): string => {
+  return Array.from(document.querySelectorAll('style'))
+    .map(style => style.textContent || '')
+    .join('\n');
+};
+
+const sessionToHtmlBody = (session: ChatSession): string => {
+  const messagesHtml = getSelectedThread(session)
+    .map(message => renderToStaticMarkup(createElement(ChatMessage, { message })))
+    .join('\n');
+
+  return `<section class="pb-12">
+  <h1 class="max-w-3xl mx-auto px-4 pt-10 pb-4 text-2xl font-semibold text-white">${escapeHtml(session.title)}</h1>
+  ${messagesHtml}
+</section>`;
+};
+
+// Formulas are rendered to KaTeX markup, which needs its stylesheet and fonts
+const KATEX_STYLESHEET = 'https://esm.sh/katex@0.16.22/dist/katex.min.css';
+
+const sessionsToHtml = (sessions: ChatSession[]): string => {
+  const title = sessions.length === 1 ? sessions[0].title : 'Conversas exportadas';
+  return `<!DOCTYPE html>
+<html lang="pt-BR">
+<head>
+<meta charset="UTF-8" />
+<meta name="viewport" content="width=device-width, initial-scale=1.0" />
+<title>${escapeHtml(title)}</title>
+<link rel="stylesheet" href="${KATEX_STYLESHEET}" />
+<style>
+${collectPageStyles()}
+body { position: static; overflow: auto; background: #09090b; color: #f3f4f6; }
+</style>
+</head>
+<body>
+${sessions.map(sessionToHtmlBody).join('\n')}
+</body>
+</html>`;
+};
+
+export const exportSessions = (sessions: ChatSession[], format: ExportFormat): string => {
+  switch (format) {
+    case 'markdown':
+      return sessions.map(sessionToMarkdown).join('\n---\n\n');
+    case 'html':
+      return sessionsToHtml(sessions);
+    case 'json': {
+      const file: ExportFile = {
+        format: EXPORT_FORMAT_ID,
+        version: EXPORT_VERSION,
+        exportedAt: new Date().toISOString(),
+        sessions,
+      };
+      return JSON.stringify(file, null, 2);
+    }
+  }
+};
+
+export const downloadExport = (sessions: ChatSession[], format: ExportFormat) => {
+  const content = exportSessions(sessions, format);
+  const baseName = sessions.length === 1
+    ? sessions[0].title.replace(/[^\p{L}\p{N}]+/gu, '-').replace(/^-+|-+$/g, '').toLowerCase() || 'conversa'
+    : 'conversas';
+
+  const url = URL.createObjectURL(new Blob([content], { type: MIME_TYPES[format] }));
+  const link = document.createElement('a');
+  link.href = url;
+  link.download = `${baseName}.${FILE_EXTENSIONS[format]}`;
+  link.click();
+  URL.revokeObjectURL(url);
+};
+
+const createId = () => `${Date.now()}-${Math.random().toString(36).slice(2, 8)}`;
+
+const isValidAttachment = (value: any): boolean => {
+  return typeof value === 'string' || (
+    !!value &&
+    typeof value.name === 'string' &&
+    typeof value.mimeType === 'string' &&
+    typeof value.size === 'number' &&
+    typeof value.data === 'string'
+  );
+};
+
+const isValidToolCall = (value: any): boolean => {
+  return !!value &&
+    typeof value.id === 'string' &&
+    typeof value.name === 'string' &&
+    !!value.args && typeof value.args === 'object';
+};
+
+const isValidGroundingMetadata = (value: any): boolean => {
+  return !!value && typeof value === 'object' &&
+    (value.groundingChunks === undefined || Array.isArray(value.groundingChunks)) &&
+    (value.webSearchQueries === undefined || (Array.isArray(value.webSearchQueries) && value.webSearchQueries.every((q: unknown) => typeof q === 'string'))) &&
+    (value.groundingSupports === undefined || (Array.isArray(value.groundingSupports) && value.groundingSupports.every((support: any) => (
+      typeof support?.segment?.endIndex === 'number' && Array.isArray(support.groundingChunkIndices)
+    ))));
+};
+
+const isValidMessage = (value: any): boolean => {
+  return !!value &&
+    typeof value.id === 'string' &&
+    (value.role === Role.User || value.role === Role.Model) &&
+    typeof value.content === 'string' &&
+    !isNaN(new Date(value.timestamp).getTime()) &&
+    (value.parentId === undefined || value.parentId === null || typeof value.parentId === 'string') &&
+    (value.attachments === undefined || (Array.isArray(value.attachments) && value.attachments.every(isValidAttachment))) &&
+    (value.images === undefined || (Array.isArray(value.images) && value.images.every((i: unknown) => typeof i === 'string'))) &&
+    (value.image === undefined || typeof value.image === 'string') &&
+    (value.groundingMetadata === undefined || isValidGroundingMetadata(value.groundingMetadata)) &&
+    (value.structuredOutput === undefined || (typeof value.structuredOutput?.schemaName === 'string' && Array.isArray(value.structuredOutput.errors))) &&
+    (value.toolCalls === undefined || (Array.isArray(value.toolCalls) && value.toolCalls.every(isValidToolCall)));
+};
+
+const isValidSession = (value: any): boolean => {
+  return !!value &&
+    typeof value.id === 'string' &&
+    typeof value.title === 'string' &&
+    typeof value.createdAt === 'number' &&
+    Array.isArray(value.messages) &&
+    value.messages.every(isValidMessage);
+};
+
+// Gives an imported session (and its messages) fresh IDs so it can't overwrite existing data
+const remapSessionIds = (session: ChatSession): ChatSession => {
+  const idMap = new Map(session.messages.map(m => [m.id, createId()]));
+  return {
+    ...session,
+    id: createId(),
+    activeLeafId: session.activeLeafId ? idMap.get(session.activeLeafId) ?? null : session.activeLeafId,
+    contextSummary: session.contextSummary && idMap.has(session.contextSummary.upToMessageId)
+      ? { ...session.contextSummary, upToMessageId: idMap.get(session.contextSummary.upToMessageId)! }
+      : undefined,
+    messages: session.messages.map(m => ({
+      ...m,
+      id: idMap.get(m.id)!,
+      parentId: m.parentId ? idMap.get(m.parentId) ?? null : m.parentId,
+      attachments: m.attachments?.map(({ editSource, ...attachment }) => (
+        editSource && idMap.has(editSource.messageId)
+          ? { ...attachment, editSource: { ...editSource, messageId: idMap.get(editSource.messageId)! } }
+          : attachment
+      )),
+    })),
+  };
+};
+
+/**
+ * Parses a JSON export, validating its structure.
+ * Sessions and messages always get new IDs: message IDs (and the stored files named after them)
+ * are global keys, so importing a copy of a conversation that is still here would overwrite it.
+ * Throws an Error with a user-facing message when the file is invalid.
+ */
+export const parseImportFile = (text: string): ChatSession[] => {
+  let data: any;
+  try {
+    data = JSON.parse(text);
+  } catch {
+    throw new Error("O arquivo não é um JSON válido.");
+  }
+
+  if (!data || data.format !== EXPORT_FORMAT_ID || !Array.isArray(data.sessions)) {
+    throw new Error("O arquivo não é uma exportação de conversas reconhecida.");
+  }
+  if (typeof data.version !== 'number' || data.version > EXPORT_VERSION) {
+    throw new Error("Este arquivo foi exportado por uma versão mais recente do aplicativo.");
+  }
+  if (!data.sessions.every(isValidSession)) {
+    throw new Error("O arquivo contém conversas corrompidas ou incompletas.");
+  }
+
+  return (data.sessions as ChatSession[]).map(session => {
+    const hydrated: ChatSession = {
+      ...session,
+      messages: session.messages.map(m => ({
+        ...upgradeLegacyFiles(m),
+        timestamp: new Date(m.timestamp),
+        isStreaming: false,
+      })),
+    };
+    return remapSessionIds(hydrated);
+  });
+};
@@ -1,96 +1,226 @@
-import { GoogleGenAI, Chat, GenerateContentResponse } from "@google/genai";
-import { AIModel } from "../types";
+import { GoogleGenAI, Chat, Content } from "@google/genai";
+import { AIModel, Attachment, GenerationOptions, Persona, ThinkingLevel, WebSearchMode, WebToolsChoice } from "../types";
+import { createChatError } from "./chatErrors";
+import { getApiMimeType, getAttachmentKind, getBase64Data } from "../utils/attachments";
+import { ToolDefinition } from "./tools/types";
 
-// Ensure API key is present
-const API_KEY = process.env.API_KEY;
+// The API key is provided at runtime from the settings panel
+let apiKey = '';
+let ai = new GoogleGenAI({ apiKey });
 
-if (!API_KEY) {
-  console.error("Missing process.env.API_KEY. The app will fail to communicate with Gemini.");
-}
+export const setApiKey = (key: string) => {
+  if (key === apiKey) return;
+  apiKey = key;
+  ai = new GoogleGenAI({ apiKey: key });
+};
+
+export const hasApiKey = () => apiKey.length > 0;
 
-const ai = new GoogleGenAI({ apiKey: API_KEY });
+/**
+ * Checks that a key is accepted by the API.
+ * Throws with the API error when it is not.
+ */
+export const validateApiKey = async (key: string) => {
+  const client = new GoogleGenAI({ apiKey: key });
+  await client.models.get({ model: BACKGROUND_MODEL_ID });
+};
 
-const SYSTEM_INSTRUCTION = `Você é um assistente de IA útil, inteligente e conhecedor, alimentado pelo Gemini. 
+// Per-request config replaces the chat-level config instead of merging with it,
+// so we keep each chat's config around to re-send it with each message's tools and abort signal.
+const chatConfigs = new WeakMap<Chat, any>();
+// Model and local tools of each chat, to pick the tools of each message
+const chatSetups = new WeakMap<Chat, { modelId: string, tools: ToolDefinition[] }>();
+// Config of the message being answered, re-sent with the results of its function calls
+const requestConfigs = new WeakMap<Chat, any>();
+
+const URL_PATTERN = /https?:\/\/[^\s]+/i;
+
+// The API can't force a search: the 'on' mode only asks the model for one
+const SEARCH_REQUEST_INSTRUCTION = 'Pesquise na web antes de responder a esta mensagem e baseie a resposta nos resultados encontrados.';
+
+export const DEFAULT_SYSTEM_INSTRUCTION = `Você é um assistente de IA útil, inteligente e conhecedor, alimentado pelo Gemini. 
 Seu objetivo é fornecer respostas precisas, concisas e bem formatadas.
 Use Markdown para formatar blocos de código, listas e ênfase. 
 Seja coloquial, mas profissional. Sempre responda em Português.`;
 
-export const AVAILABLE_MODELS: AIModel[] = [
+// Lightweight model used for background tasks such as naming or summarizing conversations
+export const BACKGROUND_MODEL_ID = 'gemini-flash-lite-latest';
+
+// Prices are list prices in USD per million tokens (image output is billed as output tokens)
+export const GEMINI_MODELS: AIModel[] = [
   { 
     id: 'gemini-2.5-flash', 
     name: 'Gemini 2.5 Flash', 
     description: 'Equilíbrio ideal entre velocidade, inteligência e custo.',
-    isPro: false
+    isPro: false,
+    provider: 'gemini',
+    contextWindow: 1048576,
+    pricing: { inputPerMillion: 0.30, outputPerMillion: 2.50, cachedInputPerMillion: 0.03 },
+    thinkingLevels: ['auto', 'off', 'low', 'medium', 'high']
   },
   {
     id: 'gemini-flash-lite-latest',
     name: 'Gemini Flash Lite',
     description: 'Modelo ultra-rápido e leve para tarefas simples.',
-    isPro: false
+    isPro: false,
+    provider: 'gemini',
+    contextWindow: 1048576,
+    pricing: { inputPerMillion: 0.10, outputPerMillion: 0.40, cachedInputPerMillion: 0.01 },
+    thinkingLevels: ['auto', 'off', 'low', 'medium', 'high']
   },
   { 
     id: 'gemini-3-pro-preview', 
     name: 'Gemini 3.0 Pro', 
     description: 'Melhor raciocínio para problemas complexos, matemática e código.',
-    isPro: true
+    isPro: true,
+    provider: 'gemini',
+    contextWindow: 1048576,
+    pricing: { inputPerMillion: 2.00, outputPerMillion: 12.00, cachedInputPerMillion: 0.20 },
+    thinkingLevels: ['auto', 'low', 'high']
   },
   {
     id: 'gemini-2.5-flash-image',
     name: 'Gemini 2.5 Flash Image',
     description: 'Geração rápida de imagens (sem suporte a pesquisa web).',
-    isPro: false
+    isPro: false,
+    provider: 'gemini',
+    contextWindow: 32768,
+    pricing: { inputPerMillion: 0.30, outputPerMillion: 30.00 }
   },
   {
     id: 'gemini-3-pro-image-preview',
     name: 'Gemini 3.0 Pro Image',
     description: 'Imagens de alta fidelidade com suporte a pesquisa web.',
-    isPro: true
+    isPro: true,
+    provider: 'gemini',
+    contextWindow: 65536,
+    pricing: { inputPerMillion: 2.00, outputPerMillion: 120.00 },
+    imageSizes: ['1K', '2K', '4K']
   }
 ];
 
-export const getGeminiChat = (modelId: string, history?: { role: string, parts: { text: string }[] }[]): Chat => {
+/**
+ * Web tools offered with a message, given the user's choice and what the model supports.
+ * URL context is added when the message has links, so the model reads the pages.
+ */
+export const getWebTools = (modelId: string, mode: WebSearchMode, message: string, hasLocalTools: boolean): WebToolsChoice => {
+  // Gemini 2.5 Flash Image does NOT support tools; Gemini 3.0 Pro Image only searches
+  if (modelId === 'gemini-2.5-flash-image' || mode === 'off') {
+    return { search: 'off', urlContext: false };
+  }
+  // Web tools can't be combined with local function tools, which take precedence unless search is requested
+  if (hasLocalTools && mode === 'auto' && !modelId.includes('image')) {
+    return { search: 'off', urlContext: false };
+  }
+  return { search: mode, urlContext: !modelId.includes('image') && URL_PATTERN.test(message) };
+};
+
+const getToolsConfig = (tools: ToolDefinition[], webTools: WebToolsChoice) => {
+  const config: any[] = [];
+  if (webTools.search !== 'off') config.push({ googleSearch: {} });
+  if (webTools.urlContext) config.push({ urlContext: {} });
+  if (config.length === 0 && tools.length > 0) {
+    config.push({
+      functionDeclarations: tools.map(tool => ({
+        name: tool.name,
+        description: tool.description,
+        parametersJsonSchema: tool.parameters,
+      }))
+    });
+  }
+  return config.length > 0 ? config : undefined;
+};
+
+// Token budgets for models that take one (Gemini 2.5)
+const THINKING_BUDGETS: Record<Exclude<ThinkingLevel, 'auto'>, number> = { off: 0, low: 1024, medium: 8192, high: 24576 };
+
+// Gemini 3 takes a thinking level, earlier models a token budget; thought summaries are always requested
+const getThinkingConfig = (modelId: string, level: ThinkingLevel) => {
+  const config: any = { includeThoughts: level !== 'off' };
+  if (level === 'auto') return config;
+
+  if (modelId.startsWith('gemini-3')) {
+    config.thinkingLevel = level === 'low' ? 'LOW' : 'HIGH';
+  } else {
+    config.thinkingBudget = THINKING_BUDGETS[level];
+  }
+  return config;
+};
+
+// Converts an attachment into an inlineData part
+const toInlineDataPart = (attachment: Attachment) => ({
+  inlineData: {
+    mimeType: getApiMimeType(attachment),
+    data: getBase64Data(attachment.data)
+  }
+});
+
+export const getGeminiChat = (modelId: string, history?: Content[], persona?: Persona, generation?: GenerationOptions, tools: ToolDefinition[] = []): Chat => {
   const config: any = {
-    systemInstruction: SYSTEM_INSTRUCTION,
-    temperature: 0.7,
-    topK: 40,
+    systemInstruction: persona?.systemInstruction || DEFAULT_SYSTEM_INSTRUCTION,
+    temperature: persona?.temperature ?? 0.7,
+    topK: persona?.topK ?? 40,
   };
 
-  // Google Search Tool logic:
-  // Gemini 2.5 Flash Image does NOT support tools.
-  // Gemini 3.0 Pro Image DOES support tools.
-  // Standard text models support tools.
-  if (modelId !== 'gemini-2.5-flash-image') {
-    config.tools = [{ googleSearch: {} }];
+  if (persona?.topP !== undefined) {
+    config.topP = persona.topP;
   }
 
-  // Configurações específicas para geração de imagem se for o modelo 3.0 Pro Image
-  if (modelId === 'gemini-3-pro-image-preview') {
-    config.imageConfig = {
-      aspectRatio: "1:1",
-      imageSize: "1K"
-    };
+  // Image models don't call functions; each message then picks its web tools (see getWebTools)
+  const localTools = modelId.includes('image') ? [] : tools;
+  config.tools = getToolsConfig(localTools, getWebTools(modelId, 'auto', '', localTools.length > 0));
+
+  // Structured answers follow a JSON schema and can't be combined with tools
+  if (generation?.responseSchema && !modelId.includes('image')) {
+    config.responseMimeType = 'application/json';
+    config.responseJsonSchema = generation.responseSchema;
+    delete config.tools;
   }
 
-  return ai.chats.create({
+  const thinkingLevels = GEMINI_MODELS.find(m => m.id === modelId)?.thinkingLevels;
+  if (thinkingLevels) {
+    const level = generation?.thinking && thinkingLevels.includes(generation.thinking) ? generation.thinking : 'auto';
+    config.thinkingConfig = getThinkingConfig(modelId, level);
+  }
+
+  // Formato das imagens geradas; a resolução só é aceita pelos modelos que a oferecem
+  const imageGeneration = generation?.imageGeneration;
+  if (imageGeneration && modelId.includes('image')) {
+    config.imageConfig = { aspectRatio: imageGeneration.aspectRatio };
+    if (GEMINI_MODELS.find(m => m.id === modelId)?.imageSizes?.includes(imageGeneration.imageSize)) {
+      config.imageConfig.imageSize = imageGeneration.imageSize;
+    }
+  }
+
+  const chat = ai.chats.create({
     model: modelId,
     history: history || [],
     config: config,
   });
+  chatConfigs.set(chat, config);
+  chatSetups.set(chat, { modelId, tools: localTools });
+  return chat;
 };
 
 /**
  * Sends a message to the chat model.
- * Supports text and multiple image attachments.
+ * Supports text and multiple attachments (images, PDFs, audio and text files).
+ * Passing an AbortSignal allows the in-flight stream to be cancelled.
+ * The message is sent with the given web tools (see getWebTools) instead of the chat's defaults.
  */
-export const sendMessageStream = async (chat: Chat, message: string, attachments: string[] = []) => {
+export const sendMessageStream = async (chat: Chat, message: string, attachments: Attachment[] = [], signal?: AbortSignal, webTools?: WebToolsChoice) => {
   try {
+    if (!hasApiKey()) {
+      throw createChatError('missing-key', "Missing Gemini API key. Set it in the settings panel.");
+    }
+
     let messagePayload: any;
 
     if (attachments.length === 0) {
       // Simple text message
       messagePayload = { message };
     } else {
-      // Multimodal message (Text + Images)
+      // Multimodal message (Text + Files)
       const parts: any[] = [];
       
       // Add text part if exists
@@ -98,28 +228,118 @@ export const sendMessageStream = async (chat: Chat, message: string, attachments
         parts.push({ text: message });
       }
 
-      // Add image parts
-      for (const base64Str of attachments) {
-        // base64Str is usually "data:image/png;base64,....."
-        // We need to extract mimeType and the raw base64 data
-        const matches = base64Str.match(/^data:([^;]+);base64,(.+)$/);
-        if (matches && matches.length === 3) {
-            parts.push({
-                inlineData: {
-                    mimeType: matches[1],
-                    data: matches[2]
-                }
-            });
-        }
+      // Add file parts
+      for (const attachment of attachments) {
+        parts.push(toInlineDataPart(attachment));
       }
 
       messagePayload = { message: parts };
     }
 
+    const setup = chatSetups.get(chat);
+    const config = { ...chatConfigs.get(chat), abortSignal: signal };
+    if (setup && webTools && !config.responseJsonSchema) {
+      config.tools = getToolsConfig(setup.tools, webTools);
+      if (webTools.search === 'on') {
+        config.systemInstruction = `${config.systemInstruction}\n\n${SEARCH_REQUEST_INSTRUCTION}`;
+      }
+    }
+    requestConfigs.set(chat, config);
+    messagePayload.config = config;
+
     const streamResult = await chat.sendMessageStream(messagePayload);
     return streamResult;
   } catch (error) {
-    console.error("Gemini API Error:", error);
+    if (!signal?.aborted) {
+      console.error("Gemini API Error:", error);
+    }
     throw error;
   }
-};
\ No newline at end of file
+};
+
+/**
+ * Sends the results of the model's function calls back to it, streaming the rest of the answer.
+ * Each response must be an object, so other values are wrapped in `{ output }`.
+ */
+export const sendToolResponses = async (chat: Chat, responses: { id?: string, name: string, result: unknown }[], signal?: AbortSignal) => {
+  const messagePayload: any = {
+    message: responses.map(({ id, name, result }) => ({
+      functionResponse: {
+        id,
+        name,
+        response: result !== null && typeof result === 'object' && !Array.isArray(result) ? result : { output: result },
+      }
+    }))
+  };
+
+  messagePayload.config = { ...(requestConfigs.get(chat) ?? chatConfigs.get(chat)), abortSignal: signal };
+
+  return chat.sendMessageStream(messagePayload);
+};
+
+// Counts the tokens a history takes for the given model
+export const countTokens = async (modelId: string, contents: Content[]): Promise<number> => {
+  if (!hasApiKey()) {
+    throw createChatError('missing-key', "Missing Gemini API key. Set it in the settings panel.");
+  }
+  if (contents.length === 0) return 0;
+
+  const response = await ai.models.countTokens({ model: modelId, contents });
+  return response.totalTokens ?? 0;
+};
+
+// Transcribes a voice recording for the message box, in the language it was spoken
+export const transcribeAudio = async (modelId: string, audio: Attachment) => {
+  if (!hasApiKey()) {
+    throw createChatError('missing-key', "Missing Gemini API key. Set it in the settings panel.");
+  }
+
+  const response = await ai.models.generateContent({
+    model: modelId,
+    contents: [{
+      role: 'user',
+      parts: [
+        toInlineDataPart(audio),
+        { text: 'Transcreva este áudio exatamente como foi falado, no idioma original. Responda apenas com a transcrição, sem comentários. Se não houver fala, não responda nada.' }
+      ]
+    }],
+    config: { temperature: 0 },
+  });
+
+  return (response.text || '').trim();
+};
+
+/**
+ * Generates a short title for a conversation from its first exchange.
+ * Uses a lightweight model and answers in the conversation's language.
+ * Returns an empty string when no usable title comes back.
+ */
+export const generateChatTitle = async (userMessage: string, attachments: Attachment[] = [], modelReply: string = '', modelGeneratedImage: boolean = false) => {
+  const parts: any[] = [];
+
+  // One image is enough to name image-only prompts; other files are named in the prompt
+  const image = attachments.find(a => getAttachmentKind(a.mimeType) === 'image');
+  if (image) {
+    parts.push(toInlineDataPart(image));
+  }
+  const fileNames = attachments.filter(a => a !== image).map(a => a.name);
+
+  parts.push({
+    text: `Crie um título curto (no máximo 6 palavras) para a conversa abaixo, no mesmo idioma da mensagem do usuário.
+Responda apenas com o título, sem aspas, sem markdown e sem ponto final.
+
+Usuário: ${userMessage.trim() || (attachments.length > 0 ? '[enviou anexos sem texto]' : '')}${fileNames.length > 0 ? `\n[arquivos anexados: ${fileNames.join(', ')}]` : ''}
+Assistente: ${modelReply.slice(0, 1000)}${modelGeneratedImage ? '\n[o assistente gerou uma imagem]' : ''}`
+  });
+
+  const response = await ai.models.generateContent({
+    model: BACKGROUND_MODEL_ID,
+    contents: [{ role: 'user', parts }],
+    config: { temperature: 0.3, maxOutputTokens: 30 },
+  });
+
+  return (response.text || '')
+    .split('\n')[0]
+    .replace(/^["'#*\s]+|["'*.\s]+$/g, '')
+    .slice(0, 60);
+};
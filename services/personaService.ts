@@ -0,0 +1,135 @@
+import { Persona } from "../types";
+import { DEFAULT_SYSTEM_INSTRUCTION } from "./geminiService";
+
+/**
+ * Personas bundle a system instruction with generation settings.
+ * Built-in personas ship with the app; custom ones are kept in localStorage
+ * and can be shared as JSON files.
+ */
+
+const PERSONAS_KEY = 'gemini-chat-personas';
+const PERSONAS_FORMAT_ID = 'gemini-chat-personas';
+const PERSONAS_VERSION = 1;
+
+export const DEFAULT_PERSONA_ID = 'default';
+
+export const BUILT_IN_PERSONAS: Persona[] = [
+  {
+    id: DEFAULT_PERSONA_ID,
+    name: 'Assistente',
+    icon: 'sparkles',
+    systemInstruction: DEFAULT_SYSTEM_INSTRUCTION,
+    isBuiltIn: true
+  },
+  {
+    id: 'code-reviewer',
+    name: 'Revisor de Código',
+    icon: 'code',
+    systemInstruction: `Você é um engenheiro de software sênior fazendo revisão de código.
+Aponte bugs, problemas de segurança, desempenho e legibilidade, em ordem de gravidade.
+Para cada ponto, explique o motivo e sugira a correção com um trecho de código em Markdown.
+Seja direto e objetivo. Sempre responda em Português.`,
+    defaultModelId: 'gemini-3-pro-preview',
+    temperature: 0.2,
+    isBuiltIn: true
+  },
+  {
+    id: 'translator',
+    name: 'Tradutor',
+    icon: 'languages',
+    systemInstruction: `Você é um tradutor profissional.
+Se o texto estiver em Português, traduza para o Inglês; caso contrário, traduza para o Português.
+Preserve o tom, a formatação e os termos técnicos. Responda apenas com a tradução, sem comentários.`,
+    defaultModelId: 'gemini-2.5-flash',
+    temperature: 0.3,
+    isBuiltIn: true
+  },
+  {
+    id: 'writing-assistant',
+    name: 'Assistente de Escrita',
+    icon: 'pen',
+    systemInstruction: `Você é um editor e redator experiente.
+Ajude a escrever, revisar e melhorar textos: clareza, coesão, gramática e tom adequado ao público.
+Ao revisar, mostre a versão melhorada e liste brevemente as principais mudanças. Sempre responda em Português.`,
+    temperature: 0.9,
+    isBuiltIn: true
+  },
+];
+
+const createId = () => `persona-${Date.now()}-${Math.random().toString(36).slice(2, 8)}`;
+
+export const createPersona = (): Persona => ({
+  id: createId(),
+  name: 'Nova persona',
+  icon: 'bot',
+  systemInstruction: '',
+});
+
+export const loadCustomPersonas = (): Persona[] => {
+  const saved = localStorage.getItem(PERSONAS_KEY);
+  if (!saved) return [];
+
+  try {
+    return JSON.parse(saved);
+  } catch (e) {
+    console.error("Failed to parse personas", e);
+    return [];
+  }
+};
+
+export const saveCustomPersonas = (personas: Persona[]) => {
+  localStorage.setItem(PERSONAS_KEY, JSON.stringify(personas));
+};
+
+export const exportPersonas = (personas: Persona[]): string => {
+  return JSON.stringify({
+    format: PERSONAS_FORMAT_ID,
+    version: PERSONAS_VERSION,
+    personas: personas.map(({ isBuiltIn, ...persona }) => persona),
+  }, null, 2);
+};
+
+const isOptionalNumber = (value: unknown) => value === undefined || typeof value === 'number';
+
+const isValidPersona = (value: any): boolean => {
+  return !!value &&
+    typeof value.id === 'string' &&
+    typeof value.name === 'string' && value.name.trim().length > 0 &&
+    typeof value.icon === 'string' &&
+    typeof value.systemInstruction === 'string' &&
+    (value.defaultModelId === undefined || typeof value.defaultModelId === 'string') &&
+    isOptionalNumber(value.temperature) &&
+    isOptionalNumber(value.topK) &&
+    isOptionalNumber(value.topP);
+};
+
+/**
+ * Parses a personas JSON file.
+ * Personas whose ID is already taken get a new one.
+ * Throws an Error with a user-facing message when the file is invalid.
+ */
+export const parsePersonasFile = (text: string, existingIds: Set<string>): Persona[] => {
+  let data: any;
+  try {
+    data = JSON.parse(text);
+  } catch {
+    throw new Error("O arquivo não é um JSON válido.");
+  }
+
+  if (!data || data.format !== PERSONAS_FORMAT_ID || !Array.isArray(data.personas)) {
+    throw new Error("O arquivo não é uma exportação de personas reconhecida.");
+  }
+  if (typeof data.version !== 'number' || data.version > PERSONAS_VERSION) {
+    throw new Error("Este arquivo foi exportado por uma versão mais recente do aplicativo.");
+  }
+  if (!data.personas.every(isValidPersona)) {
+    throw new Error("O arquivo contém personas inválidas.");
+  }
+
+  const takenIds = new Set(existingIds);
+  return (data.personas as Persona[]).map(persona => {
+    const imported: Persona = { ...persona, isBuiltIn: undefined, id: takenIds.has(persona.id) ? createId() : persona.id };
+    takenIds.add(imported.id);
+    return imported;
+  });
+};
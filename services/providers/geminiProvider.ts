@@ -0,0 +1,135 @@
+import { ChatProvider, ChatStreamEvent } from "./types";
+import { getGeminiChat, getWebTools, sendMessageStream, sendToolResponses, countTokens } from "../geminiService";
+import { createChatError } from "../chatErrors";
+import { addTokenUsage } from "../usageService";
+import { getTools, runTool, MAX_TOOL_ROUNDS } from "../tools";
+import { GroundingMetadata, TokenUsage, ToolCall } from "../../types";
+import { GroundingMetadata as SdkGroundingMetadata } from "@google/genai";
+
+/**
+ * Gemini through the official SDK.
+ * Translates SDK chunks (text, thought summaries, inline images, function calls, grounding and usage metadata) into stream events.
+ * Function calls are run locally and their results sent back until the model gives its final answer.
+ */
+// Finish reasons meaning the answer was cut by a content filter
+const BLOCKED_FINISH_REASONS = ['SAFETY', 'RECITATION', 'BLOCKLIST', 'PROHIBITED_CONTENT', 'SPII', 'IMAGE_SAFETY', 'IMAGE_PROHIBITED_CONTENT'];
+
+// Keeps the web sources, the segments they support and the search queries; fields missing from a chunk are left out
+const toGroundingMetadata = (metadata: SdkGroundingMetadata): GroundingMetadata => {
+  const result: GroundingMetadata = {};
+  if (metadata.groundingChunks) {
+    result.groundingChunks = metadata.groundingChunks.map(chunk => ({
+      web: chunk.web?.uri ? { uri: chunk.web.uri, title: chunk.web.title ?? '' } : undefined
+    }));
+  }
+  if (metadata.groundingSupports) {
+    result.groundingSupports = metadata.groundingSupports
+      .filter(support => support.segment?.endIndex !== undefined)
+      .map(support => ({
+        segment: { startIndex: support.segment!.startIndex, endIndex: support.segment!.endIndex!, text: support.segment!.text },
+        groundingChunkIndices: support.groundingChunkIndices ?? [],
+      }));
+  }
+  if (metadata.webSearchQueries?.length) {
+    result.webSearchQueries = metadata.webSearchQueries;
+  }
+  return result;
+};
+
+const TOOL_LIMIT_ERROR = { error: 'Tool call limit reached. Answer with the information you already have.' };
+
+export const geminiProvider: ChatProvider = {
+  id: 'gemini',
+  name: 'Gemini',
+  createChat: ({ model, history, persona, generation }) => {
+    const tools = getTools(generation?.tools);
+    const chat = getGeminiChat(model.id, history, persona, generation, tools);
+
+    return {
+      async *sendMessageStream(message, attachments = [], signal, options) {
+        const webTools = generation?.responseSchema
+          ? { search: 'off' as const, urlContext: false }
+          : getWebTools(model.id, options?.webSearch ?? 'auto', message, tools.length > 0 && !model.id.includes('image'));
+        yield { type: 'web-tools', webTools };
+
+        let stream = await sendMessageStream(chat, message, attachments, signal, webTools);
+        // Each request reports its own usage; earlier rounds of tool calls are added on top
+        let previousUsage: TokenUsage | undefined;
+
+        for (let round = 0; ; round++) {
+          const calls: ToolCall[] = [];
+          const apiCallIds: (string | undefined)[] = []; // The API only sometimes identifies calls
+          let roundUsage: TokenUsage | undefined;
+
+          for await (const chunk of stream) {
+            const events: ChatStreamEvent[] = [];
+            const candidate = chunk.candidates?.[0];
+
+            // Blocked prompts and filtered answers don't raise errors, they just end the stream
+            if (chunk.promptFeedback?.blockReason) {
+              throw createChatError('safety', `Prompt blocked: ${chunk.promptFeedback.blockReason}`);
+            }
+            if (candidate?.finishReason && BLOCKED_FINISH_REASONS.includes(candidate.finishReason)) {
+              throw createChatError('safety', `Response blocked: ${candidate.finishReason}`);
+            }
+
+            for (const part of candidate?.content?.parts ?? []) {
+              if (part.text) {
+                events.push({ type: part.thought ? 'thought' : 'text', text: part.text });
+              }
+              if (part.inlineData) {
+                events.push({ type: 'image', dataUrl: `data:${part.inlineData.mimeType};base64,${part.inlineData.data}` });
+              }
+              if (part.functionCall?.name) {
+                const call: ToolCall = {
+                  id: part.functionCall.id ?? `${round}-${calls.length}`,
+                  name: part.functionCall.name,
+                  args: part.functionCall.args ?? {},
+                };
+                calls.push(call);
+                apiCallIds.push(part.functionCall.id);
+                events.push({ type: 'tool-call', call });
+              }
+            }
+
+            if (candidate?.groundingMetadata) {
+              events.push({ type: 'sources', groundingMetadata: toGroundingMetadata(candidate.groundingMetadata) });
+            }
+
+            // Usage is cumulative, the last chunk carries the final counts
+            const usage = chunk.usageMetadata;
+            if (usage) {
+              roundUsage = {
+                promptTokens: usage.promptTokenCount ?? 0,
+                outputTokens: usage.candidatesTokenCount ?? 0,
+                thinkingTokens: usage.thoughtsTokenCount,
+                cachedTokens: usage.cachedContentTokenCount,
+              };
+              events.push({ type: 'usage', usage: previousUsage ? addTokenUsage(previousUsage, roundUsage) : roundUsage });
+            }
+
+            yield* events;
+          }
+
+          // No calls means the answer is complete; past the limit, stop even if the model insists
+          if (calls.length === 0 || round > MAX_TOOL_ROUNDS) return;
+          if (roundUsage) previousUsage = previousUsage ? addTokenUsage(previousUsage, roundUsage) : roundUsage;
+
+          const responses = [];
+          for (const [i, call] of calls.entries()) {
+            const { result, isError } = round < MAX_TOOL_ROUNDS
+              ? await runTool(tools, call.name, call.args)
+              : { result: TOOL_LIMIT_ERROR, isError: true };
+            if (signal?.aborted) return;
+
+            yield { type: 'tool-result', id: call.id, result, isError };
+            responses.push({ id: apiCallIds[i], name: call.name, result });
+          }
+
+          stream = await sendToolResponses(chat, responses, signal);
+        }
+      }
+    };
+  },
+  countTokens: (model, history) => countTokens(model.id, history),
+};
@@ -0,0 +1,34 @@
+import { AIModel, AppSettings, GenerationOptions, Persona, ProviderId } from "../../types";
+import { ChatHistoryEntry, ChatProvider, ProviderChat } from "./types";
+import { GEMINI_MODELS, setApiKey } from "../geminiService";
+import { geminiProvider } from "./geminiProvider";
+import { openAICompatibleProvider, getOpenAICompatibleModels, setOpenAICompatibleEndpoint } from "./openAICompatibleProvider";
+import { mockProvider, MOCK_MODELS } from "./mockProvider";
+
+export type { ChatStreamEvent, ChatHistoryEntry, ChatHistoryPart, ProviderChat, SendMessageOptions } from "./types";
+
+export const PROVIDERS: Record<ProviderId, ChatProvider> = {
+  'gemini': geminiProvider,
+  'openai-compatible': openAICompatibleProvider,
+  'mock': mockProvider,
+};
+
+// Points every provider at the credentials and endpoints from the settings
+export const configureProviders = (settings: AppSettings) => {
+  setApiKey(settings.apiKey);
+  setOpenAICompatibleEndpoint(settings.openAIBaseUrl, settings.openAIApiKey);
+};
+
+/**
+ * Models the user can pick, grouped by provider.
+ * Gemini is always listed; the others depend on the settings.
+ */
+export const getAvailableModels = (settings: AppSettings): AIModel[] => [
+  ...GEMINI_MODELS,
+  ...getOpenAICompatibleModels(settings),
+  ...(settings.enableMockProvider ? MOCK_MODELS : []),
+];
+
+export const createChat = (model: AIModel, history: ChatHistoryEntry[] = [], persona?: Persona, generation?: GenerationOptions): ProviderChat => {
+  return PROVIDERS[model.provider ?? 'gemini'].createChat({ model, history, persona, generation });
+};
@@ -0,0 +1,55 @@
+import { AIModel, Role } from "../../types";
+import { ChatProvider } from "./types";
+import { wait } from "../chatErrors";
+
+/**
+ * Offline provider that echoes the prompt back word by word.
+ * Output is deterministic, which makes it handy for trying out the UI without an API key.
+ */
+
+const WORD_DELAY_MS = 40;
+
+export const MOCK_MODELS: AIModel[] = [
+  {
+    id: 'mock-echo',
+    name: 'Modelo simulado',
+    description: 'Repete a sua mensagem, sem acessar a rede. Útil para testes.',
+    provider: 'mock',
+    contextWindow: 4096
+  }
+];
+
+const countWords = (text: string) => text.split(/\s+/).filter(Boolean).length;
+
+export const mockProvider: ChatProvider = {
+  id: 'mock',
+  name: 'Simulado',
+  createChat: ({ history = [] }) => {
+    let turn = history.filter(entry => entry.role === Role.User).length;
+
+    return {
+      async *sendMessageStream(message, attachments = [], signal) {
+        turn += 1;
+        const reply = [
+          `Resposta simulada #${turn}.`,
+          message.trim() ? `Você escreveu: "${message.trim()}"` : 'Você não escreveu nenhum texto.',
+          attachments.length > 0 ? `(${attachments.length} anexo(s) recebido(s): ${attachments.map(a => a.name).join(', ')})` : '',
+        ].filter(Boolean).join(' ');
+
+        const words = reply.split(' ');
+        for (let i = 0; i < words.length; i++) {
+          await wait(WORD_DELAY_MS, signal);
+          yield { type: 'text', text: (i === 0 ? '' : ' ') + words[i] };
+        }
+
+        yield {
+          type: 'usage',
+          usage: {
+            promptTokens: history.reduce((sum, entry) => sum + entry.parts.reduce((n, part) => n + ('text' in part ? countWords(part.text) : 0), 0), 0) + countWords(message),
+            outputTokens: words.length,
+          }
+        };
+      }
+    };
+  }
+};
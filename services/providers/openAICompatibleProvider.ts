@@ -0,0 +1,195 @@
+import { AIModel, AppSettings, Role } from "../../types";
+import { ChatHistoryEntry, ChatHistoryPart, ChatProvider, ChatStreamEvent } from "./types";
+import { DEFAULT_SYSTEM_INSTRUCTION } from "../geminiService";
+import { createChatError } from "../chatErrors";
+import { decodeBase64Text, getApiMimeType, getBase64Data } from "../../utils/attachments";
+
+/**
+ * Any server implementing the OpenAI Chat Completions API:
+ * OpenAI itself, Ollama, llama.cpp, LM Studio, vLLM...
+ * The endpoint is configured in the settings panel.
+ */
+
+export const OPENAI_MODEL_PREFIX = 'openai/';
+
+let endpoint = { baseUrl: '', apiKey: '' };
+
+export const setOpenAICompatibleEndpoint = (baseUrl: string, apiKey: string) => {
+  endpoint = { baseUrl: baseUrl.trim().replace(/\/+$/, ''), apiKey: apiKey.trim() };
+};
+
+// Model names are typed by the user, comma separated
+export const getOpenAICompatibleModels = (settings: AppSettings): AIModel[] => {
+  if (!settings.openAIBaseUrl.trim()) return [];
+
+  return settings.openAIModels
+    .split(',')
+    .map(name => name.trim())
+    .filter(Boolean)
+    .map(name => ({
+      id: `${OPENAI_MODEL_PREFIX}${name}`,
+      name,
+      description: `Servidor compatível com OpenAI (${settings.openAIBaseUrl.trim()}).`,
+      provider: 'openai-compatible' as const,
+    }));
+};
+
+type OpenAIContent = string | ({ type: 'text', text: string } | { type: 'image_url', image_url: { url: string } })[];
+
+interface OpenAIMessage {
+  role: 'system' | 'user' | 'assistant';
+  content: OpenAIContent;
+}
+
+// Images are sent as image URLs and text files inline; other files have no portable format in this API
+const toFileContent = ({ mimeType, data }: { mimeType: string, data: string }) => {
+  if (mimeType.startsWith('image/')) {
+    return { type: 'image_url' as const, image_url: { url: `data:${mimeType};base64,${data}` } };
+  }
+  if (mimeType === 'text/plain') {
+    return { type: 'text' as const, text: `Arquivo anexado:\n${decodeBase64Text(data)}` };
+  }
+  return { type: 'text' as const, text: `[arquivo ${mimeType} não suportado por este provedor]` };
+};
+
+const toUserContent = (parts: ChatHistoryPart[]): OpenAIContent => {
+  const text = parts.map(part => ('text' in part ? part.text : '')).filter(Boolean).join('\n');
+  const files = parts.flatMap(part => ('inlineData' in part ? [toFileContent(part.inlineData)] : []));
+  if (files.length === 0) return text;
+  return [
+    ...(text.trim() ? [{ type: 'text' as const, text }] : []),
+    ...files,
+  ];
+};
+
+// Assistant messages can only hold text in this API, so files are kept for user turns only
+const toOpenAIMessage = (entry: ChatHistoryEntry): OpenAIMessage => {
+  if (entry.role === Role.Model) {
+    const text = entry.parts.map(part => ('text' in part ? part.text : '')).filter(Boolean).join('\n');
+    return { role: 'assistant', content: text };
+  }
+  return { role: 'user', content: toUserContent(entry.parts) };
+};
+
+// Reads a server-sent events body and yields the data of each event.
+// An event ends at a blank line and its "data:" lines are joined with newlines, as the SSE format specifies
+async function* readServerSentEvents(body: ReadableStream<Uint8Array>) {
+  const reader = body.getReader();
+  const decoder = new TextDecoder();
+  let buffer = '';
+  let dataLines: string[] = [];
+
+  try {
+    while (true) {
+      const { done, value } = await reader.read();
+      buffer += done ? decoder.decode() : decoder.decode(value, { stream: true });
+
+      const lines = buffer.split(/\r?\n/);
+      // Without a final newline the last line is still incomplete, unless the body has ended
+      buffer = done ? '' : lines.pop() ?? '';
+      if (done) lines.push('');
+
+      for (const line of lines) {
+        if (line === '') {
+          if (dataLines.length > 0) yield dataLines.join('\n');
+          dataLines = [];
+        } else if (line.startsWith('data:')) {
+          dataLines.push(line.slice(line.startsWith('data: ') ? 6 : 5));
+        }
+        // Comments (": keepalive") and other fields are ignored
+      }
+      if (done) break;
+    }
+  } finally {
+    reader.releaseLock();
+  }
+}
+
+export const openAICompatibleProvider: ChatProvider = {
+  id: 'openai-compatible',
+  name: 'Compatível com OpenAI',
+  createChat: ({ model, history = [], persona, generation }) => {
+    const modelName = model.id.slice(OPENAI_MODEL_PREFIX.length);
+    const messages: OpenAIMessage[] = [
+      { role: 'system', content: persona?.systemInstruction || DEFAULT_SYSTEM_INSTRUCTION },
+      ...history.map(toOpenAIMessage),
+    ];
+
+    return {
+      async *sendMessageStream(message, attachments = [], signal) {
+        if (!endpoint.baseUrl) {
+          throw createChatError('missing-key', "Missing OpenAI-compatible endpoint. Set it in the settings panel.");
+        }
+
+        const userMessage: OpenAIMessage = {
+          role: 'user',
+          content: toUserContent([
+            { text: message },
+            ...attachments.map(a => ({ inlineData: { mimeType: getApiMimeType(a), data: getBase64Data(a.data) } })),
+          ]),
+        };
+
+        const response = await fetch(`${endpoint.baseUrl}/chat/completions`, {
+          method: 'POST',
+          headers: {
+            'Content-Type': 'application/json',
+            ...(endpoint.apiKey ? { Authorization: `Bearer ${endpoint.apiKey}` } : {}),
+          },
+          body: JSON.stringify({
+            model: modelName,
+            messages: [...messages, userMessage],
+            stream: true,
+            stream_options: { include_usage: true },
+            temperature: persona?.temperature ?? 0.7,
+            ...(persona?.topP !== undefined ? { top_p: persona.topP } : {}),
+            ...(generation?.responseSchema ? {
+              response_format: { type: 'json_schema', json_schema: { name: 'response', schema: generation.responseSchema } }
+            } : {}),
+          }),
+          signal,
+        });
+
+        if (!response.ok || !response.body) {
+          const detail = await response.text().catch(() => '');
+          throw Object.assign(new Error(`OpenAI-compatible API error ${response.status}: ${detail}`), { status: response.status });
+        }
+
+        let reply = '';
+        for await (const data of readServerSentEvents(response.body)) {
+          if (data.trim() === '[DONE]') break;
+
+          // Some servers and proxies send non-JSON payloads (keepalives, error lines); they don't end the answer
+          let chunk: any;
+          try {
+            chunk = JSON.parse(data);
+          } catch {
+            console.warn("Skipping a non-JSON event from the OpenAI-compatible stream", data);
+            continue;
+          }
+          const events: ChatStreamEvent[] = [];
+
+          const text = chunk.choices?.[0]?.delta?.content;
+          if (text) {
+            reply += text;
+            events.push({ type: 'text', text });
+          }
+          if (chunk.usage) {
+            events.push({
+              type: 'usage',
+              usage: {
+                promptTokens: chunk.usage.prompt_tokens ?? 0,
+                outputTokens: chunk.usage.completion_tokens ?? 0,
+                cachedTokens: chunk.usage.prompt_tokens_details?.cached_tokens,
+              }
+            });
+          }
+
+          yield* events;
+        }
+
+        // Keep the exchange so follow-up messages have context
+        messages.push(userMessage, { role: 'assistant', content: reply });
+      }
+    };
+  }
+};
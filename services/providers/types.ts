@@ -0,0 +1,51 @@
+import { AIModel, Attachment, GenerationOptions, GroundingMetadata, Persona, ProviderId, Role, TokenUsage, ToolCall, WebSearchMode, WebToolsChoice } from "../../types";
+
+/**
+ * Provider-neutral chat contract.
+ * Each provider turns its own streaming format into these events so the UI
+ * never deals with SDK-specific chunk shapes.
+ */
+
+export type ChatStreamEvent =
+  | { type: 'text', text: string }
+  | { type: 'thought', text: string }
+  | { type: 'image', dataUrl: string }
+  | { type: 'sources', groundingMetadata: GroundingMetadata }
+  | { type: 'usage', usage: TokenUsage }
+  | { type: 'tool-call', call: ToolCall }
+  | { type: 'tool-result', id: string, result: unknown, isError?: boolean }
+  | { type: 'web-tools', webTools: WebToolsChoice };
+
+export type ChatHistoryPart =
+  | { text: string }
+  | { inlineData: { mimeType: string, data: string } };
+
+export interface ChatHistoryEntry {
+  role: Role;
+  parts: ChatHistoryPart[];
+}
+
+export interface CreateChatOptions {
+  model: AIModel;
+  history?: ChatHistoryEntry[];
+  persona?: Persona;
+  generation?: GenerationOptions;
+}
+
+// Choices that apply to a single message; providers ignore what they don't support
+export interface SendMessageOptions {
+  webSearch?: WebSearchMode;
+}
+
+export interface ProviderChat {
+  /** Streams the answer to a message; the chat keeps the exchange in its history once it completes. */
+  sendMessageStream: (message: string, attachments?: Attachment[], signal?: AbortSignal, options?: SendMessageOptions) => AsyncGenerator<ChatStreamEvent>;
+}
+
+export interface ChatProvider {
+  id: ProviderId;
+  name: string;
+  createChat: (options: CreateChatOptions) => ProviderChat;
+  /** Exact token count for a history; providers without it fall back to an estimate. */
+  countTokens?: (model: AIModel, history: ChatHistoryEntry[]) => Promise<number>;
+}
@@ -0,0 +1,97 @@
+import { ResponseSchema } from "../types";
+
+/**
+ * JSON schemas for structured answers.
+ * A few examples ship with the app; schemas written by the user are kept in localStorage.
+ */
+
+const SCHEMAS_KEY = 'gemini-chat-schemas';
+
+export const BUILT_IN_SCHEMAS: ResponseSchema[] = [
+  {
+    id: 'item-list',
+    name: 'Lista de itens',
+    schema: JSON.stringify({
+      type: 'object',
+      properties: {
+        itens: {
+          type: 'array',
+          items: {
+            type: 'object',
+            properties: {
+              nome: { type: 'string' },
+              descricao: { type: 'string' },
+            },
+            required: ['nome', 'descricao'],
+          },
+        },
+      },
+      required: ['itens'],
+    }, null, 2),
+    isBuiltIn: true
+  },
+  {
+    id: 'contact-extraction',
+    name: 'Extração de contatos',
+    schema: JSON.stringify({
+      type: 'array',
+      items: {
+        type: 'object',
+        properties: {
+          nome: { type: 'string' },
+          email: { type: ['string', 'null'] },
+          telefone: { type: ['string', 'null'] },
+          empresa: { type: ['string', 'null'] },
+        },
+        required: ['nome'],
+      },
+    }, null, 2),
+    isBuiltIn: true
+  },
+];
+
+const createId = () => `schema-${Date.now()}-${Math.random().toString(36).slice(2, 8)}`;
+
+export const createResponseSchema = (): ResponseSchema => ({
+  id: createId(),
+  name: 'Novo esquema',
+  schema: JSON.stringify({ type: 'object', properties: {}, required: [] }, null, 2),
+});
+
+export const loadCustomSchemas = (): ResponseSchema[] => {
+  const saved = localStorage.getItem(SCHEMAS_KEY);
+  if (!saved) return [];
+
+  try {
+    return JSON.parse(saved);
+  } catch (e) {
+    console.error("Failed to parse schemas", e);
+    return [];
+  }
+};
+
+export const saveCustomSchemas = (schemas: ResponseSchema[]) => {
+  localStorage.setItem(SCHEMAS_KEY, JSON.stringify(schemas));
+};
+
+/**
+ * Parses the text of a schema.
+ * Throws an Error with a user-facing message when it can't be used as a response schema.
+ */
+export const parseSchema = (text: string): Record<string, unknown> => {
+  let parsed: unknown;
+  try {
+    parsed = JSON.parse(text);
+  } catch {
+    throw new Error("O esquema não é um JSON válido.");
+  }
+
+  if (!parsed || typeof parsed !== 'object' || Array.isArray(parsed)) {
+    throw new Error("O esquema deve ser um objeto JSON.");
+  }
+  const schema = parsed as Record<string, unknown>;
+  if (typeof schema.type !== 'string' && !Array.isArray(schema.anyOf)) {
+    throw new Error('O esquema precisa definir o tipo da resposta ("type").');
+  }
+  return schema;
+};
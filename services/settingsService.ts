@@ -0,0 +1,38 @@
+import { AppSettings } from "../types";
+
+/**
+ * User settings kept in localStorage (they are small and needed synchronously at startup).
+ * The API key never leaves the browser except in requests to the Gemini API.
+ */
+
+const SETTINGS_KEY = 'gemini-chat-settings';
+
+export const DEFAULT_SETTINGS: AppSettings = {
+  apiKey: '',
+  displayName: '',
+  avatar: undefined,
+  defaultModelId: 'gemini-2.5-flash',
+  openAIBaseUrl: '',
+  openAIApiKey: '',
+  openAIModels: '',
+  enableMockProvider: false,
+  contextImageBudgetMB: 8,
+  modelPricing: {},
+  imageGeneration: { aspectRatio: '1:1', imageSize: '1K' },
+};
+
+export const loadSettings = (): AppSettings => {
+  const saved = localStorage.getItem(SETTINGS_KEY);
+  if (!saved) return DEFAULT_SETTINGS;
+
+  try {
+    return { ...DEFAULT_SETTINGS, ...JSON.parse(saved) };
+  } catch (e) {
+    console.error("Failed to parse settings", e);
+    return DEFAULT_SETTINGS;
+  }
+};
+
+export const saveSettings = (settings: AppSettings) => {
+  localStorage.setItem(SETTINGS_KEY, JSON.stringify(settings));
+};
@@ -0,0 +1,132 @@
+/**
+ * Read-aloud of model answers with the browser's speech synthesis.
+ * Only one message is read at a time; components subscribe to know which one.
+ */
+
+const VOICE_STORAGE_KEY = 'gemini-chat-voice';
+
+// Long utterances are cut off by some browsers, so text is queued in chunks
+const MAX_CHUNK_LENGTH = 200;
+
+export interface SpeechState {
+  messageId: string | null; // Mensagem sendo lida
+  isPaused: boolean;
+}
+
+const IDLE_STATE: SpeechState = { messageId: null, isPaused: false };
+
+let state: SpeechState = IDLE_STATE;
+let playbackId = 0;
+const listeners = new Set<() => void>();
+
+const setState = (next: SpeechState) => {
+  state = next;
+  listeners.forEach(listener => listener());
+};
+
+export const isSpeechSynthesisSupported = () => typeof window !== 'undefined' && 'speechSynthesis' in window;
+
+export const subscribeSpeech = (listener: () => void) => {
+  listeners.add(listener);
+  return () => { listeners.delete(listener); };
+};
+
+export const getSpeechState = () => state;
+
+export const getServerSpeechState = () => IDLE_STATE;
+
+export const getVoices = (): SpeechSynthesisVoice[] => (isSpeechSynthesisSupported() ? speechSynthesis.getVoices() : []);
+
+// Voices load asynchronously in some browsers
+export const subscribeVoices = (listener: () => void) => {
+  if (!isSpeechSynthesisSupported()) return () => {};
+  speechSynthesis.addEventListener('voiceschanged', listener);
+  return () => speechSynthesis.removeEventListener('voiceschanged', listener);
+};
+
+export const getSelectedVoiceURI = () => localStorage.getItem(VOICE_STORAGE_KEY) ?? '';
+
+export const setSelectedVoiceURI = (voiceURI: string) => {
+  if (voiceURI) {
+    localStorage.setItem(VOICE_STORAGE_KEY, voiceURI);
+  } else {
+    localStorage.removeItem(VOICE_STORAGE_KEY);
+  }
+};
+
+// Markdown is read as plain text; code blocks are only announced
+export const toSpeakableText = (markdown: string) => markdown
+  .replace(/```[\s\S]*?(```|$)/g, '\n(bloco de código)\n')
+  .replace(/`([^`]+)`/g, '$1')
+  .replace(/!\[[^\]]*\]\([^)]*\)/g, '')
+  .replace(/\[([^\]]+)\]\([^)]*\)/g, '$1')
+  .replace(/^\s{0,3}(#{1,6}|>|[-*+]|\d+\.)\s+/gm, '')
+  .replace(/[*_~|]+/g, '')
+  .replace(/\n{2,}/g, '\n')
+  .trim();
+
+const splitIntoChunks = (text: string) => {
+  const sentences = text.match(/[^.!?\n]+[.!?]*\s*|\n+/g) ?? [text];
+  const chunks: string[] = [];
+  let current = '';
+
+  for (const sentence of sentences) {
+    if (current && current.length + sentence.length > MAX_CHUNK_LENGTH) {
+      chunks.push(current);
+      current = '';
+    }
+    current += sentence;
+  }
+  if (current.trim()) chunks.push(current);
+  return chunks;
+};
+
+export const speak = (messageId: string, markdown: string) => {
+  if (!isSpeechSynthesisSupported()) return;
+
+  speechSynthesis.cancel();
+  // A paused synthesizer would keep the new playback paused too
+  speechSynthesis.resume();
+  const id = ++playbackId;
+  const voice = getVoices().find(v => v.voiceURI === getSelectedVoiceURI());
+  const chunks = splitIntoChunks(toSpeakableText(markdown));
+
+  // Events of a cancelled playback may still arrive, so they are matched by id
+  const finish = () => {
+    if (id === playbackId) setState(IDLE_STATE);
+  };
+
+  chunks.forEach((chunk, i) => {
+    const utterance = new SpeechSynthesisUtterance(chunk);
+    if (voice) {
+      utterance.voice = voice;
+      utterance.lang = voice.lang;
+    } else {
+      utterance.lang = navigator.language;
+    }
+    utterance.onerror = finish;
+    if (i === chunks.length - 1) utterance.onend = finish;
+    speechSynthesis.speak(utterance);
+  });
+
+  setState(chunks.length > 0 ? { messageId, isPaused: false } : IDLE_STATE);
+};
+
+export const pauseSpeech = () => {
+  if (!state.messageId) return;
+  speechSynthesis.pause();
+  setState({ ...state, isPaused: true });
+};
+
+export const resumeSpeech = () => {
+  if (!state.messageId) return;
+  speechSynthesis.resume();
+  setState({ ...state, isPaused: false });
+};
+
+export const stopSpeech = () => {
+  if (!isSpeechSynthesisSupported()) return;
+  playbackId++;
+  speechSynthesis.cancel();
+  setState(IDLE_STATE);
+};
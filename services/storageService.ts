@@ -0,0 +1,293 @@
+import { Attachment, ChatSession, ImageEditSource, Message } from "../types";
+import { hydrateMessageTree } from "../utils/messageTree";
+import { toAttachment, upgradeLegacyFiles } from "../utils/attachments";
+
+/**
+ * Persistence layer backed by IndexedDB.
+ * Sessions, messages and binary data (attachments and generated images) live in
+ * separate stores so a session list can be loaded without pulling every image.
+ */
+
+const DB_NAME = 'gemini-chat';
+const DB_VERSION = 1;
+const LEGACY_STORAGE_KEY = 'gemini-chat-history';
+
+const SESSIONS_STORE = 'sessions';
+const MESSAGES_STORE = 'messages';
+const BLOBS_STORE = 'blobs';
+
+type SessionRecord = Omit<ChatSession, 'messages'>;
+
+interface MessageRecord extends Omit<Message, 'attachments' | 'images'> {
+  sessionId: string;
+  position: number;
+  attachmentIds?: string[];
+  imageIds?: string[];
+  imageId?: string; // Única imagem gerada, em registros antigos
+}
+
+interface BlobRecord {
+  id: string;
+  sessionId: string;
+  data: Blob;
+  name?: string; // Nome original do arquivo anexado
+  editSource?: ImageEditSource;
+}
+
+let dbPromise: Promise<IDBDatabase> | null = null;
+
+// Messages and blobs already written, so unchanged data is not rewritten on every save
+const savedMessages = new WeakSet<Message>();
+const savedBlobIds = new Set<string>();
+
+// Each entry upgrades the schema from the previous version
+const migrations: Record<number, (db: IDBDatabase) => void> = {
+  1: (db) => {
+    db.createObjectStore(SESSIONS_STORE, { keyPath: 'id' });
+    const messages = db.createObjectStore(MESSAGES_STORE, { keyPath: 'id' });
+    messages.createIndex('sessionId', 'sessionId');
+    const blobs = db.createObjectStore(BLOBS_STORE, { keyPath: 'id' });
+    blobs.createIndex('sessionId', 'sessionId');
+  },
+};
+
+const requestToPromise = <T>(request: IDBRequest<T>): Promise<T> => {
+  return new Promise((resolve, reject) => {
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+};
+
+const transactionDone = (tx: IDBTransaction): Promise<void> => {
+  return new Promise((resolve, reject) => {
+    tx.oncomplete = () => resolve();
+    tx.onerror = () => reject(tx.error);
+    tx.onabort = () => reject(tx.error || new DOMException('Transaction aborted', 'AbortError'));
+  });
+};
+
+const openDatabase = (): Promise<IDBDatabase> => {
+  if (!dbPromise) {
+    dbPromise = new Promise<IDBDatabase>((resolve, reject) => {
+      const request = indexedDB.open(DB_NAME, DB_VERSION);
+      request.onupgradeneeded = (event) => {
+        for (let version = event.oldVersion + 1; version <= DB_VERSION; version++) {
+          migrations[version](request.result);
+        }
+      };
+      request.onsuccess = () => resolve(request.result);
+      request.onerror = () => reject(request.error);
+    }).then(async (db) => {
+      await migrateFromLocalStorage(db);
+      return db;
+    });
+    dbPromise.catch(() => { dbPromise = null; });
+  }
+  return dbPromise;
+};
+
+const dataUrlToBlob = (dataUrl: string): Blob => {
+  const matches = dataUrl.match(/^data:([^;]+);base64,(.+)$/);
+  if (!matches) {
+    return new Blob([dataUrl], { type: 'text/plain' });
+  }
+  const binary = atob(matches[2]);
+  const bytes = new Uint8Array(binary.length);
+  for (let i = 0; i < binary.length; i++) {
+    bytes[i] = binary.charCodeAt(i);
+  }
+  return new Blob([bytes], { type: matches[1] });
+};
+
+const blobToDataUrl = (blob: Blob): Promise<string> => {
+  return new Promise((resolve, reject) => {
+    const reader = new FileReader();
+    reader.readAsDataURL(blob);
+    reader.onload = () => resolve(reader.result as string);
+    reader.onerror = () => reject(reader.error);
+  });
+};
+
+// A message saved while it was still streaming was cut off by a reload or a crash
+const settleStreaming = (message: Message): Message => (
+  message.isStreaming ? { ...message, isStreaming: false, isInterrupted: true, retryAttempt: undefined } : message
+);
+
+const toSessionRecord = (session: ChatSession): SessionRecord => {
+  const { messages, ...record } = session;
+  return record;
+};
+
+// Writes a session and any of its messages/blobs that changed since the last save
+const writeSession = (db: IDBDatabase, session: ChatSession): Promise<void> => {
+  const tx = db.transaction([SESSIONS_STORE, MESSAGES_STORE, BLOBS_STORE], 'readwrite');
+  const messagesStore = tx.objectStore(MESSAGES_STORE);
+  const blobsStore = tx.objectStore(BLOBS_STORE);
+  const written: Message[] = [];
+  const writtenBlobIds: string[] = [];
+
+  const putBlob = (id: string, dataUrl: string, meta?: Pick<BlobRecord, 'name' | 'editSource'>) => {
+    if (!savedBlobIds.has(id)) {
+      blobsStore.put({ ...meta, id, sessionId: session.id, data: dataUrlToBlob(dataUrl) } as BlobRecord);
+      writtenBlobIds.push(id);
+    }
+    return id;
+  };
+
+  tx.objectStore(SESSIONS_STORE).put(toSessionRecord(session));
+
+  session.messages.forEach((message, position) => {
+    if (savedMessages.has(message)) return;
+
+    const { attachments, images, ...rest } = message;
+    const record: MessageRecord = { ...rest, sessionId: session.id, position };
+    if (attachments && attachments.length > 0) {
+      record.attachmentIds = attachments.map((attachment, i) => (
+        putBlob(`${message.id}-attachment-${i}`, attachment.data, { name: attachment.name, editSource: attachment.editSource })
+      ));
+    }
+    if (images && images.length > 0) {
+      record.imageIds = images.map((data, i) => putBlob(`${message.id}-image-${i}`, data));
+    }
+    messagesStore.put(record);
+    written.push(message);
+  });
+
+  return transactionDone(tx).then(() => {
+    written.forEach(m => savedMessages.add(m));
+    writtenBlobIds.forEach(id => savedBlobIds.add(id));
+  });
+};
+
+// Imports sessions saved by older versions of the app under a single localStorage key
+const migrateFromLocalStorage = async (db: IDBDatabase) => {
+  const saved = localStorage.getItem(LEGACY_STORAGE_KEY);
+  if (!saved) return;
+
+  let legacySessions: ChatSession[];
+  try {
+    legacySessions = JSON.parse(saved);
+  } catch (e) {
+    console.error("Failed to parse legacy chat history", e);
+    return;
+  }
+
+  for (const session of legacySessions) {
+    const messages = hydrateMessageTree(session.messages.map(m => settleStreaming({
+      ...upgradeLegacyFiles(m),
+      timestamp: new Date(m.timestamp)
+    })));
+    await writeSession(db, {
+      ...session,
+      messages,
+      activeLeafId: session.activeLeafId ?? messages[messages.length - 1]?.id ?? null
+    });
+  }
+
+  // Only drop the old copy once everything was written successfully
+  localStorage.removeItem(LEGACY_STORAGE_KEY);
+};
+
+/**
+ * Loads the session list without messages (newest first).
+ * Messages are fetched on demand with `loadSessionMessages`.
+ */
+export const loadSessions = async (): Promise<ChatSession[]> => {
+  const db = await openDatabase();
+  const tx = db.transaction(SESSIONS_STORE, 'readonly');
+  const records = await requestToPromise<SessionRecord[]>(tx.objectStore(SESSIONS_STORE).getAll());
+
+  return records
+    .map(record => ({ ...record, messages: [] }))
+    .sort((a, b) => b.createdAt - a.createdAt);
+};
+
+export const loadSessionMessages = async (sessionId: string): Promise<Message[]> => {
+  const db = await openDatabase();
+  const tx = db.transaction([MESSAGES_STORE, BLOBS_STORE], 'readonly');
+  const [records, blobs] = await Promise.all([
+    requestToPromise<MessageRecord[]>(tx.objectStore(MESSAGES_STORE).index('sessionId').getAll(sessionId)),
+    requestToPromise<BlobRecord[]>(tx.objectStore(BLOBS_STORE).index('sessionId').getAll(sessionId)),
+  ]);
+
+  const blobData = new Map<string, string>();
+  const blobRecords = new Map<string, BlobRecord>();
+  for (const blob of blobs) {
+    blobData.set(blob.id, await blobToDataUrl(blob.data));
+    blobRecords.set(blob.id, blob);
+    savedBlobIds.add(blob.id);
+  }
+
+  // Blobs saved before typed attachments have no name
+  const toStoredAttachment = (id: string): Attachment | null => {
+    const data = blobData.get(id);
+    if (!data) return null;
+    const { name, editSource, data: blob } = blobRecords.get(id)!;
+    return { ...toAttachment(data), size: blob.size, ...(name && { name }), ...(editSource && { editSource }) };
+  };
+
+  const messages = records
+    .sort((a, b) => a.position - b.position)
+    .map(({ sessionId: _sessionId, position: _position, attachmentIds, imageIds, imageId, ...rest }) => {
+      const message = settleStreaming({ ...rest, timestamp: new Date(rest.timestamp) });
+      if (attachmentIds) {
+        message.attachments = attachmentIds.map(toStoredAttachment).filter((a): a is Attachment => !!a);
+      }
+      const storedImageIds = imageIds ?? (imageId ? [imageId] : []);
+      if (storedImageIds.length > 0) {
+        message.images = storedImageIds.map(id => blobData.get(id)).filter((d): d is string => !!d);
+      }
+      savedMessages.add(message);
+      return message;
+    });
+
+  return hydrateMessageTree(messages);
+};
+
+/**
+ * Loads the text of every stored message (without attachments or images),
+ * used to build the search index across all sessions.
+ */
+export const loadAllMessages = async (): Promise<{ sessionId: string, message: Message }[]> => {
+  const db = await openDatabase();
+  const tx = db.transaction(MESSAGES_STORE, 'readonly');
+  const records = await requestToPromise<MessageRecord[]>(tx.objectStore(MESSAGES_STORE).getAll());
+
+  return records.map(({ sessionId, position: _position, attachmentIds: _attachmentIds, imageIds: _imageIds, imageId: _imageId, ...rest }) => ({
+    sessionId,
+    message: settleStreaming({ ...rest, timestamp: new Date(rest.timestamp) }),
+  }));
+};
+
+export const saveSession = async (session: ChatSession): Promise<void> => {
+  const db = await openDatabase();
+  await writeSession(db, session);
+};
+
+export const deleteSession = async (sessionId: string): Promise<void> => {
+  const db = await openDatabase();
+  const tx = db.transaction([SESSIONS_STORE, MESSAGES_STORE, BLOBS_STORE], 'readwrite');
+  tx.objectStore(SESSIONS_STORE).delete(sessionId);
+
+  for (const storeName of [MESSAGES_STORE, BLOBS_STORE]) {
+    const index = tx.objectStore(storeName).index('sessionId');
+    const keys = await requestToPromise(index.getAllKeys(sessionId));
+    keys.forEach(key => tx.objectStore(storeName).delete(key));
+  }
+
+  await transactionDone(tx);
+};
+
+// Removes every stored session, message and blob
+export const clearAllData = async (): Promise<void> => {
+  const db = await openDatabase();
+  const tx = db.transaction([SESSIONS_STORE, MESSAGES_STORE, BLOBS_STORE], 'readwrite');
+  [SESSIONS_STORE, MESSAGES_STORE, BLOBS_STORE].forEach(storeName => tx.objectStore(storeName).clear());
+  await transactionDone(tx);
+  savedBlobIds.clear();
+};
+
+export const isQuotaError = (error: unknown): boolean => {
+  return error instanceof DOMException &&
+    (error.name === 'QuotaExceededError' || error.name === 'NS_ERROR_DOM_QUOTA_REACHED');
+};
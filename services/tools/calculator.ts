@@ -0,0 +1,127 @@
+import { ToolDefinition } from "./types";
+
+/**
+ * Evaluates arithmetic expressions without `eval`.
+ * Supports + - * / % ^, parentheses, a few functions and the constants pi and e.
+ */
+
+const FUNCTIONS: Record<string, (x: number) => number> = {
+  sqrt: Math.sqrt,
+  abs: Math.abs,
+  round: Math.round,
+  floor: Math.floor,
+  ceil: Math.ceil,
+  sin: Math.sin,
+  cos: Math.cos,
+  tan: Math.tan,
+  ln: Math.log,
+  log: Math.log10,
+  exp: Math.exp,
+};
+
+const CONSTANTS: Record<string, number> = { pi: Math.PI, e: Math.E };
+
+// Commas are rejected rather than guessed: "1,250" may be a thousands separator or a decimal comma
+const tokenize = (expression: string): string[] => {
+  if (expression.includes(',')) {
+    throw new Error('Commas are not accepted: use "." for decimals and no thousands separators');
+  }
+  const tokens = expression.match(/\d+(?:\.\d+)?(?:e[+-]?\d+)?|[a-z]+|[-+*/%^()]/gi);
+  if (!tokens || tokens.join('') !== expression.replace(/\s+/g, '')) {
+    throw new Error(`Invalid expression: ${expression}`);
+  }
+  return tokens;
+};
+
+// Recursive descent: expression > term > power > unary > primary
+export const evaluateExpression = (expression: string): number => {
+  const tokens = tokenize(expression);
+  let position = 0;
+
+  const peek = () => tokens[position];
+  const next = () => tokens[position++];
+
+  const parseExpression = (): number => {
+    let value = parseTerm();
+    while (peek() === '+' || peek() === '-') {
+      value = next() === '+' ? value + parseTerm() : value - parseTerm();
+    }
+    return value;
+  };
+
+  const parseTerm = (): number => {
+    let value = parsePower();
+    while (peek() === '*' || peek() === '/' || peek() === '%') {
+      const operator = next();
+      const right = parsePower();
+      value = operator === '*' ? value * right : operator === '/' ? value / right : value % right;
+    }
+    return value;
+  };
+
+  // Right associative, so 2^3^2 is 2^9
+  const parsePower = (): number => {
+    const base = parseUnary();
+    if (peek() === '^') {
+      next();
+      return Math.pow(base, parsePower());
+    }
+    return base;
+  };
+
+  const parseUnary = (): number => {
+    if (peek() === '-') {
+      next();
+      return -parseUnary();
+    }
+    if (peek() === '+') {
+      next();
+      return parseUnary();
+    }
+    return parsePrimary();
+  };
+
+  const parsePrimary = (): number => {
+    const token = next();
+    if (token === undefined) throw new Error('Unexpected end of expression');
+
+    if (token === '(') {
+      const value = parseExpression();
+      if (next() !== ')') throw new Error('Missing closing parenthesis');
+      return value;
+    }
+    if (/^\d/.test(token)) return parseFloat(token);
+
+    const name = token.toLowerCase();
+    if (Object.hasOwn(CONSTANTS, name)) return CONSTANTS[name];
+    if (Object.hasOwn(FUNCTIONS, name)) {
+      if (next() !== '(') throw new Error(`Expected "(" after ${name}`);
+      const value = parseExpression();
+      if (next() !== ')') throw new Error('Missing closing parenthesis');
+      return FUNCTIONS[name](value);
+    }
+    throw new Error(`Unknown token: ${token}`);
+  };
+
+  const result = parseExpression();
+  if (position < tokens.length) throw new Error(`Unexpected token: ${peek()}`);
+  return result;
+};
+
+export const calculatorTool: ToolDefinition = {
+  name: 'calculator',
+  label: 'Calculadora',
+  description: 'Evaluates an arithmetic expression exactly. Use it for any calculation instead of computing mentally. Numbers use "." as the decimal separator, without thousands separators. Supports + - * / % ^, parentheses, sqrt, abs, round, floor, ceil, sin, cos, tan (radians), ln, log (base 10), exp, pi and e.',
+  parameters: {
+    type: 'object',
+    properties: {
+      expression: { type: 'string', description: 'Expression to evaluate, e.g. "(1250 * 0.15) + sqrt(16)"' },
+    },
+    required: ['expression'],
+  },
+  execute: ({ expression }) => {
+    const result = evaluateExpression(String(expression));
+    if (!Number.isFinite(result)) throw new Error('The result is not a finite number');
+    return { expression, result };
+  },
+};
@@ -0,0 +1,19 @@
+import { ToolDefinition } from "./types";
+
+export const dateTimeTool: ToolDefinition = {
+  name: 'get_current_datetime',
+  label: 'Data e hora',
+  description: "Returns the current date and time on the user's device, with its time zone. Use it for questions about today, now, or relative dates.",
+  parameters: {
+    type: 'object',
+    properties: {
+      timeZone: { type: 'string', description: 'Optional IANA time zone to convert to, e.g. "America/Sao_Paulo". Defaults to the user\'s time zone.' },
+    },
+  },
+  execute: ({ timeZone }) => {
+    const now = new Date();
+    const zone = timeZone || Intl.DateTimeFormat().resolvedOptions().timeZone;
+    const formatted = new Intl.DateTimeFormat('pt-BR', { dateStyle: 'full', timeStyle: 'long', timeZone: zone }).format(now);
+    return { iso: now.toISOString(), timeZone: zone, local: formatted };
+  },
+};
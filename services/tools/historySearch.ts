@@ -0,0 +1,34 @@
+import { ToolDefinition } from "./types";
+import { loadAllMessages, loadSessions } from "../storageService";
+import { createSearchIndex } from "../../utils/searchIndex";
+
+const MAX_TOOL_RESULTS = 8;
+
+export const historySearchTool: ToolDefinition = {
+  name: 'search_chat_history',
+  label: 'Pesquisar no histórico',
+  description: "Searches the user's previous conversations in this app by keywords. Use it when the user refers to something discussed before in another chat.",
+  parameters: {
+    type: 'object',
+    properties: {
+      query: { type: 'string', description: 'Keywords to look for; every word must appear in the message' },
+    },
+    required: ['query'],
+  },
+  execute: async ({ query }) => {
+    // Built from what is saved, so it also covers conversations that were never opened
+    const [sessions, messages] = await Promise.all([loadSessions(), loadAllMessages()]);
+    const index = createSearchIndex();
+    messages.forEach(({ sessionId, message }) => index.addMessage(sessionId, message));
+
+    const titles = new Map(sessions.map(s => [s.id, s.title]));
+    const results = index.search(String(query)).slice(0, MAX_TOOL_RESULTS);
+    return {
+      results: results.map(result => ({
+        conversation: titles.get(result.sessionId) ?? '',
+        date: result.timestamp.toISOString(),
+        excerpt: result.snippet,
+      })),
+    };
+  },
+};
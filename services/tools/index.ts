@@ -0,0 +1,34 @@
+import { ToolDefinition } from "./types";
+import { calculatorTool } from "./calculator";
+import { dateTimeTool } from "./dateTime";
+import { historySearchTool } from "./historySearch";
+
+export type { ToolDefinition } from "./types";
+
+// Calls answered with errors after this many rounds, so the model has to conclude
+export const MAX_TOOL_ROUNDS = 5;
+
+export const BUILT_IN_TOOLS: ToolDefinition[] = [calculatorTool, dateTimeTool, historySearchTool];
+
+export const getTools = (names: string[] = []): ToolDefinition[] => {
+  return BUILT_IN_TOOLS.filter(tool => names.includes(tool.name));
+};
+
+export const getToolLabel = (name: string) => BUILT_IN_TOOLS.find(tool => tool.name === name)?.label ?? name;
+
+/**
+ * Runs a tool the model asked for.
+ * Failures are returned as results so the model can react to them instead of the answer failing.
+ */
+export const runTool = async (tools: ToolDefinition[], name: string, args: Record<string, unknown>): Promise<{ result: unknown, isError?: boolean }> => {
+  const tool = tools.find(t => t.name === name);
+  if (!tool) {
+    return { result: { error: `Unknown tool: ${name}` }, isError: true };
+  }
+
+  try {
+    return { result: await tool.execute(args) };
+  } catch (error) {
+    return { result: { error: error instanceof Error ? error.message : String(error) }, isError: true };
+  }
+};
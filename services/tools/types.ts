@@ -0,0 +1,13 @@
+/**
+ * Local tools the model can call while answering.
+ * Each tool declares its parameters as a JSON schema and runs in the browser;
+ * its result is sent back to the model, which then continues the answer.
+ */
+
+export interface ToolDefinition {
+  name: string; // Nome enviado ao modelo (letras, números e _)
+  label: string; // Nome exibido na interface
+  description: string; // Explica ao modelo quando usar a ferramenta
+  parameters: Record<string, unknown>; // JSON Schema dos argumentos
+  execute: (args: Record<string, any>) => Promise<unknown> | unknown;
+}
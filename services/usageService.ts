@@ -0,0 +1,92 @@
+import { AIModel, ModelPricing, TokenUsage } from "../types";
+
+/**
+ * Token usage and estimated cost.
+ * Each answer's usage is stored on its message and added to its session; a daily log
+ * in localStorage also keeps it per day and model, so totals survive deleted conversations.
+ */
+
+const USAGE_LOG_KEY = 'gemini-chat-usage';
+
+export interface DailyUsage {
+  date: string; // YYYY-MM-DD, local time
+  modelId: string;
+  sessionId: string;
+  usage: TokenUsage;
+  requests: number;
+}
+
+export const addTokenUsage = (a: TokenUsage | undefined, b: TokenUsage): TokenUsage => ({
+  promptTokens: (a?.promptTokens ?? 0) + b.promptTokens,
+  outputTokens: (a?.outputTokens ?? 0) + b.outputTokens,
+  thinkingTokens: (a?.thinkingTokens ?? 0) + (b.thinkingTokens ?? 0),
+  cachedTokens: (a?.cachedTokens ?? 0) + (b.cachedTokens ?? 0),
+});
+
+export const getTotalTokens = (usage: TokenUsage) => usage.promptTokens + usage.outputTokens + (usage.thinkingTokens ?? 0);
+
+export const toDateKey = (date: Date) => {
+  const pad = (n: number) => n.toString().padStart(2, '0');
+  return `${date.getFullYear()}-${pad(date.getMonth() + 1)}-${pad(date.getDate())}`;
+};
+
+export const loadUsageLog = (): DailyUsage[] => {
+  const saved = localStorage.getItem(USAGE_LOG_KEY);
+  if (!saved) return [];
+
+  try {
+    return JSON.parse(saved);
+  } catch (e) {
+    console.error("Failed to parse usage log", e);
+    return [];
+  }
+};
+
+// Adds an answer's usage to the entry of its day, model and session
+export const logUsage = (sessionId: string, modelId: string, usage: TokenUsage, date = new Date()) => {
+  const log = loadUsageLog();
+  const dateKey = toDateKey(date);
+  const entry = log.find(e => e.date === dateKey && e.modelId === modelId && e.sessionId === sessionId);
+
+  if (entry) {
+    entry.usage = addTokenUsage(entry.usage, usage);
+    entry.requests += 1;
+  } else {
+    log.push({ date: dateKey, modelId, sessionId, usage: addTokenUsage(undefined, usage), requests: 1 });
+  }
+  localStorage.setItem(USAGE_LOG_KEY, JSON.stringify(log));
+};
+
+export const clearUsageLog = () => {
+  localStorage.removeItem(USAGE_LOG_KEY);
+};
+
+// Price of a model: the user's override, then the model's list price
+export const getModelPricing = (modelId: string, models: AIModel[], overrides: Record<string, ModelPricing>): ModelPricing | undefined => {
+  return overrides[modelId] ?? models.find(m => m.id === modelId)?.pricing;
+};
+
+// Estimated cost in USD; cached prompt tokens are billed at the cached rate when there is one
+export const estimateCost = (usage: TokenUsage, pricing?: ModelPricing): number => {
+  if (!pricing) return 0;
+
+  const cached = Math.min(usage.cachedTokens ?? 0, usage.promptTokens);
+  const cachedRate = pricing.cachedInputPerMillion ?? pricing.inputPerMillion;
+  return (
+    (usage.promptTokens - cached) * pricing.inputPerMillion +
+    cached * cachedRate +
+    (usage.outputTokens + (usage.thinkingTokens ?? 0)) * pricing.outputPerMillion
+  ) / 1000000;
+};
+
+export const formatTokens = (tokens: number) => {
+  if (tokens < 1000) return tokens.toString();
+  if (tokens < 1000000) return `${(tokens / 1000).toFixed(tokens < 10000 ? 1 : 0).replace(/\.0$/, '')}k`;
+  return `${(tokens / 1000000).toFixed(1).replace(/\.0$/, '')}M`;
+};
+
+export const formatCost = (cost: number) => {
+  if (cost === 0) return '$0';
+  if (cost < 0.01) return `$${cost.toFixed(4)}`;
+  return `$${cost.toFixed(2)}`;
+};
@@ -8,34 +8,198 @@ export interface GroundingWebSource {
   title: string;
 }
 
+// Trecho da resposta apoiado por fontes da pesquisa web
+export interface GroundingSupport {
+  segment: {
+    startIndex?: number;
+    endIndex: number; // Em bytes UTF-8
+    text?: string;
+  };
+  groundingChunkIndices: number[]; // Posições em `groundingChunks`
+}
+
 export interface GroundingMetadata {
-  groundingChunks: {
+  groundingChunks?: {
     web?: GroundingWebSource;
   }[];
+  groundingSupports?: GroundingSupport[];
+  webSearchQueries?: string[]; // Pesquisas feitas pelo modelo
 }
 
 export interface Message {
   id: string;
+  parentId?: string | null; // Mensagem anterior no ramo (null para a primeira)
   role: Role;
   content: string;
   timestamp: Date;
   isStreaming?: boolean;
   isError?: boolean;
+  isInterrupted?: boolean; // Geração interrompida pelo usuário (conteúdo parcial mantido)
   groundingMetadata?: GroundingMetadata;
-  image?: string; // Imagem gerada pelo modelo
-  attachments?: string[]; // Imagens enviadas pelo usuário (Base64)
+  images?: string[]; // Imagens geradas pelo modelo
+  attachments?: Attachment[]; // Arquivos enviados pelo usuário
+  usage?: TokenUsage; // Tokens consumidos pela resposta (mensagens do modelo)
+  modelId?: string; // Modelo que gerou a resposta
+  errorKind?: ChatErrorKind; // Categoria do erro, quando isError
+  retryAttempt?: number; // Nova tentativa automática em andamento
+  toolCalls?: ToolCall[]; // Ferramentas locais chamadas pelo modelo durante a resposta
+  webSearch?: WebSearchMode; // Pesquisa na web escolhida ao enviar (mensagens do usuário)
+  webTools?: WebToolsChoice; // Ferramentas web oferecidas ao gerar a resposta (mensagens do modelo)
+  thoughts?: string; // Resumo do raciocínio do modelo; nunca é reenviado no histórico
+  thinkingDurationMs?: number; // Tempo de raciocínio antes da resposta
+  structuredOutput?: StructuredOutputResult; // Resposta em JSON gerada a partir de um esquema
+}
+
+export interface StructuredOutputResult {
+  schemaName: string;
+  errors: string[]; // Problemas encontrados ao validar a resposta contra o esquema (vazio se válida)
+}
+
+// Pesquisa na web: desativada, a critério do modelo ou obrigatória
+export type WebSearchMode = 'off' | 'auto' | 'on';
+
+export interface WebToolsChoice {
+  search: WebSearchMode;
+  urlContext: boolean; // Leitura dos links citados na mensagem
+}
+
+// Chamada de uma ferramenta local feita pelo modelo, com o resultado enviado de volta
+export interface ToolCall {
+  id: string;
+  name: string;
+  args: Record<string, unknown>;
+  result?: unknown; // Ausente enquanto a ferramenta executa
+  isError?: boolean;
+}
+
+// Arquivo anexado a uma mensagem (imagem, PDF, áudio ou texto/código)
+export interface Attachment {
+  name: string;
+  mimeType: string;
+  size: number; // Bytes
+  data: string; // Data URL (Base64)
+  editSource?: ImageEditSource; // Imagem da conversa que este anexo está editando
+}
+
+// Imagem da conversa usada como ponto de partida de uma edição
+export interface ImageEditSource {
+  messageId: string;
+  kind: 'generated' | 'attachment';
+  index: number; // Posição em `images` ou em `attachments`
 }
 
+export type ChatErrorKind =
+  | 'missing-key'
+  | 'auth'
+  | 'rate-limit'
+  | 'server'
+  | 'network'
+  | 'safety'
+  | 'invalid-request'
+  | 'unknown';
+
 export interface ChatSession {
   id: string;
   title: string;
-  messages: Message[];
+  messages: Message[]; // Todas as mensagens de todos os ramos da conversa
+  activeLeafId?: string | null; // Última mensagem do ramo selecionado
   createdAt: number;
+  updatedAt?: number; // Última atividade (mensagem mais recente)
+  pinned?: boolean;
+  tags?: string[];
+  isTitleEdited?: boolean; // Título renomeado manualmente pelo usuário
+  personaId?: string; // Persona usada ao criar a conversa
+  contextSummary?: ContextSummary;
+  usage?: Record<string, TokenUsage>; // Tokens consumidos na conversa, por modelo
+  enabledTools?: string[]; // Ferramentas locais que o modelo pode chamar nesta conversa
+  thinking?: ThinkingLevel; // Nível de raciocínio escolhido para a conversa
+  responseSchema?: ResponseSchema; // Esquema das respostas estruturadas, quando ativadas
 }
 
+// Resumo das mensagens antigas de um ramo, enviado no lugar delas ao modelo
+export interface ContextSummary {
+  content: string;
+  upToMessageId: string; // Última mensagem coberta pelo resumo
+}
+
+export type ProviderId = 'gemini' | 'openai-compatible' | 'mock';
+
 export interface AIModel {
   id: string;
   name: string;
   description: string;
   isPro?: boolean;
-}
\ No newline at end of file
+  provider?: ProviderId; // Padrão: 'gemini'
+  contextWindow?: number; // Tokens de entrada aceitos pelo modelo
+  pricing?: ModelPricing; // Preço padrão, pode ser alterado nas configurações
+  imageSizes?: ImageSize[]; // Resoluções oferecidas por modelos de imagem que permitem escolher
+  thinkingLevels?: ThinkingLevel[]; // Níveis de raciocínio que o modelo aceita
+}
+
+// Quanto o modelo raciocina antes de responder ('auto' mantém o padrão do modelo)
+export type ThinkingLevel = 'auto' | 'off' | 'low' | 'medium' | 'high';
+
+export type ImageAspectRatio = '1:1' | '2:3' | '3:2' | '3:4' | '4:3' | '4:5' | '5:4' | '9:16' | '16:9' | '21:9';
+
+export type ImageSize = '1K' | '2K' | '4K';
+
+// Formato das imagens geradas
+export interface ImageGenerationOptions {
+  aspectRatio: ImageAspectRatio;
+  imageSize: ImageSize; // Ignorado por modelos sem escolha de resolução
+}
+
+// Opções de geração aplicadas à conversa; cada provedor usa as que o modelo suporta
+export interface GenerationOptions {
+  imageGeneration?: ImageGenerationOptions;
+  tools?: string[]; // Nomes das ferramentas locais oferecidas ao modelo
+  thinking?: ThinkingLevel;
+  responseSchema?: Record<string, unknown>; // JSON Schema da resposta; ausente para texto livre
+}
+
+// Esquema JSON salvo para respostas estruturadas
+export interface ResponseSchema {
+  id: string;
+  name: string;
+  schema: string; // JSON Schema, como texto
+  isBuiltIn?: boolean;
+}
+
+// Preços em dólares por milhão de tokens
+export interface ModelPricing {
+  inputPerMillion: number;
+  outputPerMillion: number; // Inclui tokens de raciocínio
+  cachedInputPerMillion?: number;
+}
+
+export interface TokenUsage {
+  promptTokens: number;
+  outputTokens: number;
+  thinkingTokens?: number;
+  cachedTokens?: number;
+}
+export interface AppSettings {
+  apiKey: string;
+  displayName: string;
+  avatar?: string; // Imagem de perfil (Base64)
+  defaultModelId: string;
+  openAIBaseUrl: string; // Endpoint compatível com OpenAI (ex.: Ollama em http://localhost:11434/v1)
+  openAIApiKey: string;
+  openAIModels: string; // Nomes dos modelos separados por vírgula
+  enableMockProvider: boolean;
+  contextImageBudgetMB: number; // Tamanho máximo das imagens e arquivos reenviados no histórico
+  modelPricing: Record<string, ModelPricing>; // Preços personalizados, por ID de modelo
+  imageGeneration: ImageGenerationOptions;
+}
+
+export interface Persona {
+  id: string;
+  name: string;
+  icon: string; // Chave de PERSONA_ICONS
+  systemInstruction: string;
+  defaultModelId?: string;
+  temperature?: number;
+  topK?: number;
+  topP?: number;
+  isBuiltIn?: boolean;
+}
@@ -0,0 +1,160 @@
+import { Attachment, Message } from '../types';
+
+/**
+ * Helpers for files attached to messages: images, PDFs, audio clips and text/code files.
+ * Attachments are sent inline with the request, so each kind has a size limit
+ * and the files of a message must fit together under the API's request limit.
+ */
+
+export type AttachmentKind = 'image' | 'pdf' | 'audio' | 'text';
+
+const MB = 1024 * 1024;
+
+export const ATTACHMENT_SIZE_LIMITS: Record<AttachmentKind, number> = {
+  image: 10 * MB,
+  pdf: 15 * MB,
+  audio: 15 * MB,
+  text: 1 * MB,
+};
+
+// Leaves room for the text and history under the 20 MB inline request limit
+export const MAX_MESSAGE_ATTACHMENTS_SIZE = 18 * MB;
+
+const TEXT_EXTENSIONS = [
+  'txt', 'md', 'csv', 'tsv', 'json', 'xml', 'html', 'css', 'scss', 'js', 'jsx', 'ts', 'tsx', 'py', 'java',
+  'c', 'h', 'cpp', 'hpp', 'cs', 'go', 'rs', 'rb', 'php', 'kt', 'swift', 'sh', 'sql', 'yml', 'yaml', 'toml', 'ini', 'log',
+];
+
+// Audio formats Gemini accepts (WAV, MP3, AIFF, AAC, OGG and FLAC), by extension
+const AUDIO_MIME_TYPES: Record<string, string> = {
+  mp3: 'audio/mp3',
+  wav: 'audio/wav',
+  ogg: 'audio/ogg',
+  flac: 'audio/flac',
+  aac: 'audio/aac',
+  aiff: 'audio/aiff',
+  aif: 'audio/aiff',
+};
+
+// The same formats under the names browsers report for them
+const BROWSER_AUDIO_TYPES: Record<string, string> = {
+  'audio/mp3': 'audio/mp3',
+  'audio/mpeg': 'audio/mp3',
+  'audio/wav': 'audio/wav',
+  'audio/wave': 'audio/wav',
+  'audio/x-wav': 'audio/wav',
+  'audio/vnd.wave': 'audio/wav',
+  'audio/ogg': 'audio/ogg',
+  'audio/flac': 'audio/flac',
+  'audio/x-flac': 'audio/flac',
+  'audio/aac': 'audio/aac',
+  'audio/x-aac': 'audio/aac',
+  'audio/aiff': 'audio/aiff',
+  'audio/x-aiff': 'audio/aiff',
+};
+
+export const ACCEPTED_FILE_TYPES = [
+  'image/*',
+  ...Object.keys(AUDIO_MIME_TYPES).map(ext => `.${ext}`),
+  'application/pdf',
+  ...TEXT_EXTENSIONS.map(ext => `.${ext}`),
+].join(',');
+
+const getExtension = (name: string) => (name.includes('.') ? name.split('.').pop()!.toLowerCase() : '');
+
+// Browsers leave the type empty for many code and audio files, so it is inferred from the extension.
+// Audio in other formats (M4A, WebM...) gets no type, since the API would reject it
+const inferMimeType = (file: File): string | null => {
+  const extension = getExtension(file.name);
+  if (file.type.startsWith('image/') || file.type === 'application/pdf') return file.type;
+  if (file.type.startsWith('audio/')) return BROWSER_AUDIO_TYPES[file.type.split(';')[0]] ?? AUDIO_MIME_TYPES[extension] ?? null;
+  if (extension === 'pdf') return 'application/pdf';
+  if (AUDIO_MIME_TYPES[extension]) return AUDIO_MIME_TYPES[extension];
+  if (file.type.startsWith('text/')) return file.type;
+  if (TEXT_EXTENSIONS.includes(extension)) return 'text/plain';
+  return null;
+};
+
+export const getAttachmentKind = (mimeType: string): AttachmentKind => {
+  if (mimeType.startsWith('image/')) return 'image';
+  if (mimeType.startsWith('audio/')) return 'audio';
+  if (mimeType === 'application/pdf') return 'pdf';
+  return 'text';
+};
+
+// Text and code files are all sent as plain text, the type every model accepts
+export const getApiMimeType = (attachment: Attachment) => (
+  getAttachmentKind(attachment.mimeType) === 'text' ? 'text/plain' : attachment.mimeType
+);
+
+export const getBase64Data = (dataUrl: string) => dataUrl.slice(dataUrl.indexOf(',') + 1);
+
+export const decodeBase64Text = (base64: string) => {
+  const binary = atob(base64);
+  return new TextDecoder().decode(Uint8Array.from(binary, c => c.charCodeAt(0)));
+};
+
+export const formatFileSize = (bytes: number) => {
+  if (bytes < 1024) return `${bytes} B`;
+  if (bytes < MB) return `${Math.round(bytes / 1024)} KB`;
+  return `${(bytes / MB).toFixed(1).replace(/\.0$/, '')} MB`;
+};
+
+/**
+ * Checks a file before reading it.
+ * Returns a user-facing error, or null when the file can be attached.
+ */
+export const validateFile = (file: File): string | null => {
+  const mimeType = inferMimeType(file);
+  if (!mimeType && file.type.startsWith('audio/')) {
+    return `${file.name}: formato de áudio não suportado. Envie WAV, MP3, AIFF, AAC, OGG ou FLAC.`;
+  }
+  if (!mimeType) {
+    return `${file.name}: tipo de arquivo não suportado. Envie imagens, PDFs, áudios ou arquivos de texto/código.`;
+  }
+
+  const limit = ATTACHMENT_SIZE_LIMITS[getAttachmentKind(mimeType)];
+  if (file.size > limit) {
+    return `${file.name}: o arquivo tem ${formatFileSize(file.size)}, acima do limite de ${formatFileSize(limit)} para este tipo.`;
+  }
+  return null;
+};
+
+export const readFileAsAttachment = (file: File): Promise<Attachment> => {
+  const mimeType = inferMimeType(file) ?? 'application/octet-stream';
+  return new Promise((resolve, reject) => {
+    const reader = new FileReader();
+    reader.onerror = () => reject(reader.error);
+    // The data URL is rebuilt with the inferred type instead of the (often empty) browser one
+    reader.onload = () => resolve({
+      name: file.name || 'arquivo',
+      mimeType,
+      size: file.size,
+      data: `data:${mimeType};base64,${getBase64Data(reader.result as string)}`,
+    });
+    reader.readAsDataURL(file);
+  });
+};
+
+// Messages saved before typed attachments only kept the image data URL
+export const toAttachment = (value: string | Attachment): Attachment => {
+  if (typeof value !== 'string') return value;
+
+  const mimeType = value.match(/^data:([^;,]+)/)?.[1] ?? 'image/png';
+  return {
+    name: getAttachmentKind(mimeType) === 'image' ? 'imagem' : 'arquivo',
+    mimeType,
+    size: Math.floor(getBase64Data(value).length * 3 / 4),
+    data: value,
+  };
+};
+
+// Older saves and exports keep attachments as data URLs and a single generated `image`
+export const upgradeLegacyFiles = (message: Message & { image?: string }): Message => {
+  const { image, ...rest } = message;
+  return {
+    ...rest,
+    attachments: message.attachments?.map(toAttachment),
+    images: message.images ?? (image ? [image] : undefined),
+  };
+};
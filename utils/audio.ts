@@ -0,0 +1,67 @@
+/**
+ * Recording formats for dictation.
+ * Gemini takes WAV, MP3, AIFF, AAC, OGG and FLAC audio. Browsers record Ogg or AAC
+ * only in some cases (Chrome only has WebM, Safari MP4), so other recordings are
+ * decoded and re-encoded as 16 kHz mono WAV, enough for speech.
+ */
+
+// Recorder formats sent as they are, in order of preference
+const RECORDING_MIME_TYPES = ['audio/ogg;codecs=opus', 'audio/ogg', 'audio/aac'];
+
+const WAV_SAMPLE_RATE = 16000;
+
+// A recorder format the API accepts, or undefined to use the browser's default and transcode it
+export const getRecordingMimeType = () => (
+  typeof MediaRecorder === 'undefined' ? undefined : RECORDING_MIME_TYPES.find(type => MediaRecorder.isTypeSupported(type))
+);
+
+// Recordings in any other format (checked without codec parameters) are transcoded before sending
+export const needsTranscoding = (mimeType: string) => !['audio/ogg', 'audio/aac'].includes(mimeType.split(';')[0]);
+
+const encodeWav = (samples: Float32Array, sampleRate: number): Blob => {
+  const buffer = new ArrayBuffer(44 + samples.length * 2);
+  const view = new DataView(buffer);
+  const writeText = (offset: number, text: string) => {
+    for (let i = 0; i < text.length; i++) view.setUint8(offset + i, text.charCodeAt(i));
+  };
+
+  writeText(0, 'RIFF');
+  view.setUint32(4, 36 + samples.length * 2, true);
+  writeText(8, 'WAVE');
+  writeText(12, 'fmt ');
+  view.setUint32(16, 16, true); // fmt chunk size
+  view.setUint16(20, 1, true); // PCM
+  view.setUint16(22, 1, true); // mono
+  view.setUint32(24, sampleRate, true);
+  view.setUint32(28, sampleRate * 2, true); // byte rate
+  view.setUint16(32, 2, true); // block align
+  view.setUint16(34, 16, true); // bits per sample
+  writeText(36, 'data');
+  view.setUint32(40, samples.length * 2, true);
+
+  samples.forEach((sample, i) => {
+    const clamped = Math.max(-1, Math.min(1, sample));
+    view.setInt16(44 + i * 2, clamped < 0 ? clamped * 0x8000 : clamped * 0x7fff, true);
+  });
+  return new Blob([buffer], { type: 'audio/wav' });
+};
+
+// Decodes a recording in any format the browser plays and re-encodes it as mono WAV
+export const transcodeToWav = async (recording: Blob): Promise<Blob> => {
+  const context = new AudioContext();
+  let decoded: AudioBuffer;
+  try {
+    decoded = await context.decodeAudioData(await recording.arrayBuffer());
+  } finally {
+    context.close();
+  }
+
+  // Rendering into a single channel at the target rate mixes down and resamples in one go
+  const offline = new OfflineAudioContext(1, Math.max(1, Math.ceil(decoded.duration * WAV_SAMPLE_RATE)), WAV_SAMPLE_RATE);
+  const source = offline.createBufferSource();
+  source.buffer = decoded;
+  source.connect(offline.destination);
+  source.start();
+  const rendered = await offline.startRendering();
+  return encodeWav(rendered.getChannelData(0), WAV_SAMPLE_RATE);
+};
@@ -0,0 +1,93 @@
+import { GroundingMetadata, GroundingWebSource } from '../types';
+import { isInsideMath } from './markdownMath';
+
+/**
+ * Inline citations from web search grounding.
+ * Grounding supports map segments of an answer to the chunks (web sources) backing them.
+ * Sources are numbered in the order they were returned, with repeated URLs sharing a number,
+ * and each supported segment gets its numbers as markdown links right after it.
+ */
+
+export interface CitedSources {
+  sources: GroundingWebSource[]; // Fontes únicas; a fonte n tem o número n + 1
+  chunkNumbers: (number | undefined)[]; // Número de citação de cada chunk
+}
+
+export const getCitedSources = (metadata?: GroundingMetadata): CitedSources => {
+  const sources: GroundingWebSource[] = [];
+  const numbersByUri = new Map<string, number>();
+
+  const chunkNumbers = (metadata?.groundingChunks ?? []).map(chunk => {
+    if (!chunk.web?.uri) return undefined;
+    if (!numbersByUri.has(chunk.web.uri)) {
+      sources.push(chunk.web);
+      numbersByUri.set(chunk.web.uri, sources.length);
+    }
+    return numbersByUri.get(chunk.web.uri);
+  });
+
+  return { sources, chunkNumbers };
+};
+
+// Segment offsets are counted in UTF-8 bytes, which drift from string indices on accented text
+const byteOffsetToIndex = (text: string, byteOffset: number) => {
+  let bytes = 0;
+  for (let i = 0; i < text.length; i++) {
+    if (bytes >= byteOffset) return i;
+    const code = text.codePointAt(i)!;
+    bytes += code < 0x80 ? 1 : code < 0x800 ? 2 : code < 0x10000 ? 3 : 4;
+    if (code >= 0x10000) i++;
+  }
+  return text.length;
+};
+
+// Where a segment ends in the text, trusting the segment's own text over its offsets
+const findSegmentEnd = (text: string, segment: { endIndex: number, text?: string }) => {
+  const end = byteOffsetToIndex(text, segment.endIndex);
+  if (!segment.text || text.slice(end - segment.text.length, end) === segment.text) return end;
+
+  const found = text.indexOf(segment.text);
+  return found === -1 ? end : found + segment.text.length;
+};
+
+// Code blocks and formulas, where a marker would end up as literal text or break the formula
+const isInsideCodeOrMath = (text: string, index: number) => {
+  return (text.slice(0, index).match(/^\s*```/gm)?.length ?? 0) % 2 === 1 || isInsideMath(text, index);
+};
+
+const formatCitationLinks = (numbers: number[]) => numbers.map(n => `[${n}](#cite-${n})`).join('');
+
+/**
+ * Adds citation markers to an answer.
+ * By default markers link to `#cite-<n>`, which the chat renders as citations;
+ * exports pass their own format.
+ */
+export const insertCitations = (text: string, metadata?: GroundingMetadata, formatMarker: (numbers: number[]) => string = formatCitationLinks): string => {
+  const supports = metadata?.groundingSupports;
+  if (!supports || supports.length === 0) return text;
+
+  const { chunkNumbers } = getCitedSources(metadata);
+  const numbersByEnd = new Map<number, Set<number>>();
+
+  for (const support of supports) {
+    const numbers = support.groundingChunkIndices
+      .map(i => chunkNumbers[i])
+      .filter((n): n is number => n !== undefined);
+    if (numbers.length === 0) continue;
+
+    const end = findSegmentEnd(text, support.segment);
+    if (end <= 0 || isInsideCodeOrMath(text, end)) continue;
+
+    if (!numbersByEnd.has(end)) numbersByEnd.set(end, new Set());
+    numbers.forEach(n => numbersByEnd.get(end)!.add(n));
+  }
+
+  // Inserting from the end keeps the earlier positions valid
+  let result = text;
+  Array.from(numbersByEnd.entries())
+    .sort((a, b) => b[0] - a[0])
+    .forEach(([end, numbers]) => {
+      result = result.slice(0, end) + formatMarker(Array.from(numbers).sort((a, b) => a - b)) + result.slice(end);
+    });
+  return result;
+};
@@ -0,0 +1,177 @@
+import { ContextSummary, Message, Role } from '../types';
+import { ChatHistoryEntry, ChatHistoryPart } from '../services/providers';
+import { getApiMimeType, getAttachmentKind, getBase64Data } from './attachments';
+
+/**
+ * Rebuilds the model history from a branch of the conversation, images and files included.
+ * They are sent inline, so their total size is capped by a budget: the most recent
+ * ones are kept as they are, older images are downscaled and, when even that does not
+ * fit, dropped from the context (other files are either kept or dropped).
+ * Messages covered by a context summary are replaced by the summary itself.
+ */
+
+export type ImageContextStatus = 'full' | 'reduced' | 'dropped';
+
+// Identifies a file of a message: an attachment index or a generated image
+export type ImageSlot = number | `image-${number}`;
+
+export const getImageKey = (messageId: string, slot: ImageSlot) => (
+  typeof slot === 'number' ? `${messageId}/attachment-${slot}` : `${messageId}/${slot}`
+);
+
+export interface BuiltHistory {
+  history: ChatHistoryEntry[];
+  imageContext: Record<string, ImageContextStatus>;
+}
+
+const REDUCED_MAX_SIDE = 512;
+const REDUCED_QUALITY = 0.7;
+const DROPPED_IMAGE_NOTE = '[imagem omitida do contexto]';
+const getDroppedFileNote = (name: string) => `[arquivo ${name} omitido do contexto]`;
+
+// Downscaled copies, keyed by image key (message images never change); the least recently used go first
+const reducedImages = new Map<string, Promise<string | null>>();
+const MAX_REDUCED_IMAGES = 50;
+
+const downscaleImage = (dataUrl: string): Promise<string | null> => {
+  return new Promise(resolve => {
+    const img = new Image();
+    img.onerror = () => resolve(null);
+    img.onload = () => {
+      const scale = Math.min(1, REDUCED_MAX_SIDE / Math.max(img.width, img.height));
+      const canvas = document.createElement('canvas');
+      canvas.width = Math.round(img.width * scale);
+      canvas.height = Math.round(img.height * scale);
+      const ctx = canvas.getContext('2d');
+      if (!ctx) return resolve(null);
+
+      ctx.drawImage(img, 0, 0, canvas.width, canvas.height);
+      resolve(canvas.toDataURL('image/jpeg', REDUCED_QUALITY));
+    };
+    img.src = dataUrl;
+  });
+};
+
+const getReducedImage = (key: string, dataUrl: string) => {
+  const reduced = reducedImages.get(key) ?? downscaleImage(dataUrl);
+  // Re-inserting moves the key to the end of the map's order
+  reducedImages.delete(key);
+  reducedImages.set(key, reduced);
+  if (reducedImages.size > MAX_REDUCED_IMAGES) reducedImages.delete(reducedImages.keys().next().value!);
+  return reduced;
+};
+
+interface InlineFile {
+  dataUrl: string;
+  mimeType: string; // Tipo enviado à API
+}
+
+interface MessageFile extends InlineFile {
+  slot: ImageSlot;
+  name?: string; // Nome do arquivo anexado
+  isImage: boolean;
+}
+
+const toInlineDataPart = ({ dataUrl, mimeType }: InlineFile): ChatHistoryPart => ({
+  inlineData: { mimeType, data: getBase64Data(dataUrl) },
+});
+
+const getMessageFiles = (message: Message): MessageFile[] => [
+  ...(message.attachments ?? []).map((attachment, i) => ({
+    slot: i as ImageSlot,
+    dataUrl: attachment.data,
+    mimeType: getApiMimeType(attachment),
+    name: attachment.name,
+    isImage: getAttachmentKind(attachment.mimeType) === 'image',
+  })),
+  ...(message.images ?? []).map((dataUrl, i) => ({
+    slot: `image-${i}` as ImageSlot,
+    dataUrl,
+    mimeType: dataUrl.match(/^data:([^;,]+)/)?.[1] ?? 'image/png',
+    isImage: true,
+  })),
+];
+
+// Summaries are sent as an opening exchange so every provider accepts them
+const toSummaryPreamble = (summary: ContextSummary): ChatHistoryEntry[] => [
+  { role: Role.User, parts: [{ text: `Resumo da conversa até aqui:\n\n${summary.content}` }] },
+  { role: Role.Model, parts: [{ text: 'Entendido, vou levar esse resumo em conta.' }] },
+];
+
+/**
+ * Builds the history for a thread, keeping images and files within `imageBudgetBytes`
+ * (measured on the base64 payload, which is what gets sent).
+ * Also reports what happened to each file so the UI can show it.
+ */
+export const buildHistory = async (thread: Message[], imageBudgetBytes: number, summary?: ContextSummary): Promise<BuiltHistory> => {
+  const imageContext: Record<string, ImageContextStatus> = {};
+
+  // Summarized messages are not sent, and neither are their files
+  const summaryIndex = summary ? thread.findIndex(m => m.id === summary.upToMessageId) : -1;
+  for (const message of thread.slice(0, summaryIndex + 1)) {
+    getMessageFiles(message).forEach(({ slot }) => { imageContext[getImageKey(message.id, slot)] = 'dropped'; });
+  }
+
+  const turns = thread
+    .slice(summaryIndex + 1)
+    .filter(m => !m.isError && !(m.isInterrupted && !m.content));
+
+  // Decide which files fit, newest first
+  const included = new Map<string, InlineFile>();
+  let remaining = imageBudgetBytes;
+  let isBudgetExhausted = false;
+
+  for (const message of [...turns].reverse()) {
+    for (const file of getMessageFiles(message).reverse()) {
+      const key = getImageKey(message.id, file.slot);
+
+      if (!isBudgetExhausted && file.dataUrl.length <= remaining) {
+        imageContext[key] = 'full';
+        included.set(key, file);
+        remaining -= file.dataUrl.length;
+        continue;
+      }
+
+      const reduced = isBudgetExhausted || !file.isImage ? null : await getReducedImage(key, file.dataUrl);
+      if (reduced && reduced.length <= remaining) {
+        imageContext[key] = 'reduced';
+        included.set(key, { dataUrl: reduced, mimeType: 'image/jpeg' });
+        remaining -= reduced.length;
+      } else {
+        // Once a file is left out, older ones are left out too so the context stays contiguous
+        imageContext[key] = 'dropped';
+        isBudgetExhausted = true;
+      }
+    }
+  }
+
+  const history = turns.map(message => {
+    const parts: ChatHistoryPart[] = [];
+    const notes = new Set<string>();
+
+    for (const { slot, name, isImage } of getMessageFiles(message)) {
+      const file = included.get(getImageKey(message.id, slot));
+      if (file) {
+        parts.push(toInlineDataPart(file));
+      } else {
+        notes.add(isImage ? DROPPED_IMAGE_NOTE : getDroppedFileNote(name ?? 'anexo'));
+      }
+    }
+
+    const text = notes.size > 0 ? [message.content, ...notes].join('\n').trim() : message.content;
+    if (text || parts.length === 0) {
+      parts.unshift({ text });
+    }
+    return { role: message.role, parts };
+  });
+
+  return {
+    history: summary && summaryIndex >= 0 ? [...toSummaryPreamble(summary), ...history] : history,
+    imageContext,
+  };
+};
+
+export const isSameImageContext = (a: Record<string, ImageContextStatus>, b: Record<string, ImageContextStatus>) => {
+  const keys = Object.keys(a);
+  return keys.length === Object.keys(b).length && keys.every(key => a[key] === b[key]);
+};
@@ -0,0 +1,55 @@
+import { ImageEditSource, Message } from '../types';
+
+/**
+ * Chains of image edits.
+ * Editing an image attaches a copy of it to the next prompt, with a reference
+ * to the image it came from; following those references back gives every
+ * version of an image, from the original upload or generation to the latest edit.
+ */
+
+export interface ImageVersion extends ImageEditSource {
+  dataUrl: string;
+  prompt: string; // Pedido que gerou esta versão (ou a mensagem do envio original)
+}
+
+const isImageAttachment = (mimeType: string) => mimeType.startsWith('image/');
+
+export const getImageDataUrl = (message: Message, { kind, index }: Pick<ImageEditSource, 'kind' | 'index'>) => (
+  kind === 'generated' ? message.images?.[index] : message.attachments?.[index]?.data
+);
+
+// Versions of an image, oldest first; the image itself is the last one
+export const getImageVersions = (messages: Message[], source: ImageEditSource): ImageVersion[] => {
+  const byId = new Map(messages.map(m => [m.id, m]));
+  const versions: ImageVersion[] = [];
+  const visited = new Set<string>();
+  let current: ImageEditSource | undefined = source;
+
+  while (current) {
+    const key = `${current.messageId}/${current.kind}/${current.index}`;
+    const message = byId.get(current.messageId);
+    const dataUrl = message && getImageDataUrl(message, current);
+    if (!message || !dataUrl || visited.has(key)) break;
+    visited.add(key);
+
+    if (current.kind === 'attachment') {
+      const attachment = message.attachments![current.index];
+      // A copy attached for editing stands for the image it was taken from
+      if (attachment.editSource) {
+        current = attachment.editSource;
+        continue;
+      }
+      versions.unshift({ ...current, dataUrl, prompt: message.content });
+      break;
+    }
+
+    // A generated image comes from the prompt before it, which may carry the image being edited
+    const prompt = message.parentId ? byId.get(message.parentId) : undefined;
+    versions.unshift({ ...current, dataUrl, prompt: prompt?.content ?? '' });
+
+    const inputIndex = prompt?.attachments?.findIndex(a => isImageAttachment(a.mimeType)) ?? -1;
+    current = prompt && inputIndex >= 0 ? { messageId: prompt.id, kind: 'attachment', index: inputIndex } : undefined;
+  }
+
+  return versions;
+};
@@ -0,0 +1,114 @@
+/**
+ * Validation of structured answers against the JSON Schema they were requested with.
+ * Covers the subset the API accepts for response schemas (types, properties, required,
+ * items, enum, anyOf and the usual length and range limits); formats are not checked.
+ */
+
+type Schema = Record<string, any>;
+
+const MAX_ERRORS = 20;
+
+const getType = (value: unknown): string => {
+  if (value === null) return 'null';
+  if (Array.isArray(value)) return 'array';
+  if (typeof value === 'number') return Number.isInteger(value) ? 'integer' : 'number';
+  return typeof value;
+};
+
+const matchesType = (value: unknown, type: string) => {
+  const actual = getType(value);
+  return actual === type || (type === 'number' && actual === 'integer');
+};
+
+// Patterns the browser can't compile are not enforced
+const matchesPattern = (value: string, pattern: string) => {
+  try {
+    return new RegExp(pattern, 'u').test(value);
+  } catch {
+    return true;
+  }
+};
+
+const validateNode = (value: unknown, schema: Schema, path: string, errors: string[]) => {
+  if (errors.length >= MAX_ERRORS || !schema || typeof schema !== 'object') return;
+  const at = path || '(raiz)';
+
+  if (Array.isArray(schema.anyOf)) {
+    const matches = schema.anyOf.some((option: Schema) => {
+      const optionErrors: string[] = [];
+      validateNode(value, option, path, optionErrors);
+      return optionErrors.length === 0;
+    });
+    if (!matches) errors.push(`${at}: não corresponde a nenhuma das opções do esquema`);
+    return;
+  }
+
+  if (schema.type) {
+    const types: string[] = Array.isArray(schema.type) ? schema.type : [schema.type];
+    const allowsNull = schema.nullable === true && value === null;
+    if (!allowsNull && !types.some(type => matchesType(value, type))) {
+      errors.push(`${at}: esperado ${types.join(' ou ')}, recebido ${getType(value)}`);
+      return;
+    }
+  }
+
+  if (schema.enum && !schema.enum.some((option: unknown) => JSON.stringify(option) === JSON.stringify(value))) {
+    errors.push(`${at}: valor fora das opções permitidas (${schema.enum.map((o: unknown) => JSON.stringify(o)).join(', ')})`);
+  }
+  if ('const' in schema && JSON.stringify(schema.const) !== JSON.stringify(value)) {
+    errors.push(`${at}: esperado ${JSON.stringify(schema.const)}`);
+  }
+
+  if (typeof value === 'string') {
+    if (schema.minLength !== undefined && value.length < schema.minLength) errors.push(`${at}: texto menor que ${schema.minLength} caracteres`);
+    if (schema.maxLength !== undefined && value.length > schema.maxLength) errors.push(`${at}: texto maior que ${schema.maxLength} caracteres`);
+    if (schema.pattern && !matchesPattern(value, schema.pattern)) errors.push(`${at}: não segue o padrão ${schema.pattern}`);
+  }
+
+  if (typeof value === 'number') {
+    if (schema.minimum !== undefined && value < schema.minimum) errors.push(`${at}: menor que ${schema.minimum}`);
+    if (schema.maximum !== undefined && value > schema.maximum) errors.push(`${at}: maior que ${schema.maximum}`);
+  }
+
+  if (Array.isArray(value)) {
+    if (schema.minItems !== undefined && value.length < schema.minItems) errors.push(`${at}: menos de ${schema.minItems} itens`);
+    if (schema.maxItems !== undefined && value.length > schema.maxItems) errors.push(`${at}: mais de ${schema.maxItems} itens`);
+    if (schema.items) value.forEach((item, i) => validateNode(item, schema.items, `${path}[${i}]`, errors));
+  }
+
+  if (getType(value) === 'object') {
+    const object = value as Record<string, unknown>;
+    const properties: Record<string, Schema> = schema.properties ?? {};
+
+    for (const key of schema.required ?? []) {
+      if (!(key in object)) errors.push(`${at}: falta a propriedade obrigatória "${key}"`);
+    }
+    for (const [key, propertyValue] of Object.entries(object)) {
+      const propertyPath = path ? `${path}.${key}` : key;
+      if (properties[key]) {
+        validateNode(propertyValue, properties[key], propertyPath, errors);
+      } else if (schema.additionalProperties === false) {
+        errors.push(`${propertyPath}: propriedade não prevista no esquema`);
+      } else if (typeof schema.additionalProperties === 'object') {
+        validateNode(propertyValue, schema.additionalProperties, propertyPath, errors);
+      }
+    }
+  }
+};
+
+/**
+ * Parses an answer and checks it against a schema.
+ * Returns the problems found, as user-facing messages; an empty list means the answer is valid.
+ */
+export const validateJsonAnswer = (text: string, schema: Schema): string[] => {
+  let value: unknown;
+  try {
+    value = JSON.parse(text);
+  } catch {
+    return ['A resposta não é um JSON válido.'];
+  }
+
+  const errors: string[] = [];
+  validateNode(value, schema, '', errors);
+  return errors;
+};
@@ -0,0 +1,95 @@
+/**
+ * Dollar signs in answers.
+ * A single `$` opens inline math, but in Portuguese text it is far more often money
+ * (R$ 50, US$ 10). Following Pandoc's rule, a pair only counts as math when the
+ * opening `$` is followed by a non-space and not preceded by a letter or digit, and
+ * the closing one is preceded by a non-space and not followed by a digit. Any other
+ * single `$` is escaped before the Markdown is parsed.
+ * Inline math is looked for within a line; `$$` blocks and code are left alone.
+ */
+
+const FENCE = /^\s*(```|~~~)/;
+
+const isOpening = (line: string, i: number) => /\S/.test(line[i + 1] ?? '') && !/[\p{L}\p{N}]/u.test(line[i - 1] ?? '');
+const isClosing = (line: string, i: number) => /\S/.test(line[i - 1] ?? '') && !/\d/.test(line[i + 1] ?? '');
+
+// Positions of the single dollars of a line, outside code spans and escapes
+const findDollars = (line: string): number[] => {
+  const dollars: number[] = [];
+  for (let i = 0; i < line.length; i++) {
+    if (line[i] === '\\') {
+      i++;
+    } else if (line[i] === '`') {
+      let run = 1;
+      while (line[i + run] === '`') run++;
+      const end = line.indexOf('`'.repeat(run), i + run);
+      i = end === -1 ? i + run - 1 : end + run - 1;
+    } else if (line[i] === '$') {
+      if (line[i + 1] === '$') i++;
+      else dollars.push(i);
+    }
+  }
+  return dollars;
+};
+
+// Splits the dollars of a line into math pairs and the ones that are plain text
+const pairDollars = (line: string) => {
+  const dollars = findDollars(line);
+  const pairs: [number, number][] = [];
+  const literal: number[] = [];
+  for (let k = 0; k < dollars.length; k++) {
+    const next = dollars[k + 1];
+    if (isOpening(line, dollars[k]) && next !== undefined && isClosing(line, next)) {
+      pairs.push([dollars[k], next]);
+      k++;
+    } else {
+      literal.push(dollars[k]);
+    }
+  }
+  return { pairs, literal };
+};
+
+// Calls `visit` with each line that is prose, i.e. not in a code block or a $$ block
+const forEachProseLine = (lines: string[], visit: (line: string, index: number) => void) => {
+  let inCode = false;
+  let inMathBlock = false;
+  lines.forEach((line, index) => {
+    if (!inMathBlock && FENCE.test(line)) {
+      inCode = !inCode;
+      return;
+    }
+    if (inCode) return;
+    if (((line.match(/\$\$/g)?.length ?? 0) % 2) === 1) {
+      inMathBlock = !inMathBlock;
+      return;
+    }
+    if (!inMathBlock) visit(line, index);
+  });
+};
+
+export const escapeCurrencyDollars = (text: string): string => {
+  if (!text.includes('$')) return text;
+  const lines = text.split('\n');
+  forEachProseLine(lines, (line, index) => {
+    const { literal } = pairDollars(line);
+    if (literal.length === 0) return;
+    let escaped = line;
+    for (const position of [...literal].reverse()) {
+      escaped = `${escaped.slice(0, position)}\\${escaped.slice(position)}`;
+    }
+    lines[index] = escaped;
+  });
+  return lines.join('\n');
+};
+
+// Whether a position falls inside a formula (a $$ block or an inline $...$ pair)
+export const isInsideMath = (text: string, index: number): boolean => {
+  const before = text.slice(0, index);
+  if ((before.match(/\$\$/g)?.length ?? 0) % 2 === 1) return true;
+
+  const lineStart = before.lastIndexOf('\n') + 1;
+  const lineEnd = text.indexOf('\n', index);
+  const line = text.slice(lineStart, lineEnd === -1 ? undefined : lineEnd);
+  const column = index - lineStart;
+  return pairDollars(line).pairs.some(([open, close]) => column > open && column <= close);
+};
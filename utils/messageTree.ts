@@ -0,0 +1,47 @@
+import { Message } from '../types';
+
+/**
+ * Helpers for working with the conversation tree.
+ * Messages are stored as a flat list where each one points to its parent,
+ * so alternate answers (and edited prompts) are simply siblings.
+ */
+
+// Sessions saved before branching existed have no parent links: chain them in order
+export const hydrateMessageTree = (messages: Message[]): Message[] => {
+  return messages.map((m, i) => (
+    m.parentId !== undefined ? m : { ...m, parentId: i > 0 ? messages[i - 1].id : null }
+  ));
+};
+
+// Returns the path from the root down to the given message (inclusive)
+export const getThread = (messages: Message[], leafId: string | null | undefined): Message[] => {
+  const byId = new Map(messages.map(m => [m.id, m]));
+  const thread: Message[] = [];
+  let current = leafId ? byId.get(leafId) : undefined;
+
+  while (current) {
+    thread.unshift(current);
+    current = current.parentId ? byId.get(current.parentId) : undefined;
+  }
+  return thread;
+};
+
+export const getChildren = (messages: Message[], parentId: string | null | undefined): Message[] => {
+  return messages.filter(m => (m.parentId ?? null) === (parentId ?? null));
+};
+
+export const getSiblings = (messages: Message[], message: Message): Message[] => {
+  return getChildren(messages, message.parentId);
+};
+
+// Follows the most recent child at each level to find the leaf shown for a branch
+export const getLatestLeaf = (messages: Message[], messageId: string): string => {
+  let leafId = messageId;
+  let children = getChildren(messages, leafId);
+
+  while (children.length > 0) {
+    leafId = children[children.length - 1].id;
+    children = getChildren(messages, leafId);
+  }
+  return leafId;
+};
@@ -0,0 +1,154 @@
+import { Message } from '../types';
+
+/**
+ * Incremental full-text index over the messages of every session.
+ * Matching is case and accent insensitive, and every query term must match
+ * the start of a word in the message (so "func" finds "funciona").
+ */
+
+export interface SearchResult {
+  sessionId: string;
+  messageId: string;
+  timestamp: Date;
+  snippet: string;
+  highlights: [number, number][]; // Intervalos [início, fim) do snippet a destacar
+}
+
+interface IndexedDocument {
+  sessionId: string;
+  messageId: string;
+  timestamp: Date;
+  text: string;
+  tokens: Set<string>;
+}
+
+const SNIPPET_RADIUS = 60;
+const MAX_RESULTS = 50;
+
+const normalizeChar = (char: string) => char.normalize('NFD').replace(/\p{M}/gu, '').toLowerCase();
+
+// Normalizes text while keeping, for each normalized char, the index of its original char
+const normalizeWithMap = (text: string): { normalized: string, map: number[] } => {
+  let normalized = '';
+  const map: number[] = [];
+  for (let i = 0; i < text.length; i++) {
+    const n = normalizeChar(text[i]);
+    normalized += n;
+    for (let j = 0; j < n.length; j++) map.push(i);
+  }
+  return { normalized, map };
+};
+
+const tokenize = (text: string): string[] => {
+  return normalizeChar(text).split(/[^\p{L}\p{N}]+/u).filter(Boolean);
+};
+
+const getDocumentText = (message: Message): string => {
+  const sourceTitles = (message.groundingMetadata?.groundingChunks || [])
+    .map(chunk => chunk.web?.title)
+    .filter(Boolean);
+  return [message.content, ...sourceTitles].join('\n');
+};
+
+const docKey = (sessionId: string, messageId: string) => `${sessionId}:${messageId}`;
+
+export const createSearchIndex = () => {
+  const documents = new Map<string, IndexedDocument>();
+  const postings = new Map<string, Set<string>>();
+
+  const removeDocument = (key: string) => {
+    const doc = documents.get(key);
+    if (!doc) return;
+    doc.tokens.forEach(token => {
+      const keys = postings.get(token);
+      keys?.delete(key);
+      if (keys && keys.size === 0) postings.delete(token);
+    });
+    documents.delete(key);
+  };
+
+  // Adds a message, replacing the previous version if it was already indexed
+  const addMessage = (sessionId: string, message: Message) => {
+    const key = docKey(sessionId, message.id);
+    const text = getDocumentText(message);
+    if (documents.get(key)?.text === text) return;
+
+    removeDocument(key);
+    if (message.isError || !text.trim()) return;
+
+    const tokens = new Set(tokenize(text));
+    documents.set(key, { sessionId, messageId: message.id, timestamp: new Date(message.timestamp), text, tokens });
+    tokens.forEach(token => {
+      if (!postings.has(token)) postings.set(token, new Set());
+      postings.get(token)!.add(key);
+    });
+  };
+
+  const removeSession = (sessionId: string) => {
+    Array.from(documents.values())
+      .filter(doc => doc.sessionId === sessionId)
+      .forEach(doc => removeDocument(docKey(doc.sessionId, doc.messageId)));
+  };
+
+  const clear = () => {
+    documents.clear();
+    postings.clear();
+  };
+
+  const buildSnippet = (text: string, terms: string[]): Pick<SearchResult, 'snippet' | 'highlights'> => {
+    const { normalized, map } = normalizeWithMap(text);
+    const firstMatch = Math.max(0, Math.min(...terms.map(t => {
+      const idx = normalized.indexOf(t);
+      return idx === -1 ? Infinity : idx;
+    })));
+    const matchStart = map[firstMatch] ?? 0;
+
+    const start = Math.max(0, matchStart - SNIPPET_RADIUS);
+    const end = Math.min(text.length, matchStart + SNIPPET_RADIUS * 2);
+    const prefix = start > 0 ? '…' : '';
+    const snippet = prefix + text.slice(start, end).replace(/\s+/g, ' ') + (end < text.length ? '…' : '');
+
+    // Highlights are computed on the collapsed snippet so offsets line up with what is shown
+    const shown = normalizeWithMap(snippet);
+    const highlights: [number, number][] = [];
+    for (const term of terms) {
+      let idx = shown.normalized.indexOf(term);
+      while (idx !== -1) {
+        highlights.push([shown.map[idx], shown.map[idx + term.length - 1] + 1]);
+        idx = shown.normalized.indexOf(term, idx + term.length);
+      }
+    }
+    highlights.sort((a, b) => a[0] - b[0]);
+    return { snippet, highlights };
+  };
+
+  const search = (query: string): SearchResult[] => {
+    const terms = tokenize(query);
+    if (terms.length === 0) return [];
+
+    let matches: Set<string> | null = null;
+    for (const term of terms) {
+      const termMatches = new Set<string>();
+      postings.forEach((keys, token) => {
+        if (token.startsWith(term)) keys.forEach(key => termMatches.add(key));
+      });
+      matches = matches ? new Set(Array.from(matches).filter(key => termMatches.has(key))) : termMatches;
+      if (matches.size === 0) return [];
+    }
+
+    return Array.from(matches!)
+      .map(key => documents.get(key)!)
+      .sort((a, b) => b.timestamp.getTime() - a.timestamp.getTime())
+      .slice(0, MAX_RESULTS)
+      .map(doc => ({
+        sessionId: doc.sessionId,
+        messageId: doc.messageId,
+        timestamp: doc.timestamp,
+        ...buildSnippet(doc.text, terms),
+      }));
+  };
+
+  return { addMessage, removeSession, clear, search };
+};
+
+export type SearchIndex = ReturnType<typeof createSearchIndex>;
@@ -0,0 +1,54 @@
+import { ChatSession } from '../types';
+
+/**
+ * Groups sessions for the sidebar: pinned ones first, then by last activity
+ * (Hoje, Ontem, Últimos 7 dias, then one group per month).
+ */
+
+export interface SessionGroup {
+  label: string;
+  sessions: ChatSession[];
+}
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+export const getLastActivity = (session: ChatSession): number => session.updatedAt ?? session.createdAt;
+
+const getDateLabel = (timestamp: number, now: Date): string => {
+  const startOfToday = new Date(now.getFullYear(), now.getMonth(), now.getDate()).getTime();
+
+  if (timestamp >= startOfToday) return 'Hoje';
+  if (timestamp >= startOfToday - DAY_MS) return 'Ontem';
+  if (timestamp >= startOfToday - 6 * DAY_MS) return 'Últimos 7 dias';
+
+  const label = new Date(timestamp).toLocaleDateString('pt-BR', { month: 'long', year: 'numeric' });
+  return label.charAt(0).toUpperCase() + label.slice(1);
+};
+
+export const groupSessions = (sessions: ChatSession[], now: Date = new Date()): SessionGroup[] => {
+  const sorted = [...sessions].sort((a, b) => getLastActivity(b) - getLastActivity(a));
+  const groups: SessionGroup[] = [];
+
+  const pinned = sorted.filter(s => s.pinned);
+  if (pinned.length > 0) {
+    groups.push({ label: 'Fixadas', sessions: pinned });
+  }
+
+  for (const session of sorted.filter(s => !s.pinned)) {
+    const label = getDateLabel(getLastActivity(session), now);
+    const last = groups[groups.length - 1];
+    if (last && last.label === label) {
+      last.sessions.push(session);
+    } else {
+      groups.push({ label, sessions: [session] });
+    }
+  }
+
+  return groups;
+};
+
+export const getAllTags = (sessions: ChatSession[]): string[] => {
+  const tags = new Set<string>();
+  sessions.forEach(s => s.tags?.forEach(tag => tags.add(tag)));
+  return Array.from(tags).sort((a, b) => a.localeCompare(b, 'pt-BR'));
+};
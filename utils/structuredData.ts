@@ -0,0 +1,48 @@
+/**
+ * Tabular views of structured answers.
+ * An array of objects (at the root, or as the only property of the root object)
+ * is shown as a table and can be exported as CSV.
+ */
+
+export interface DataTable {
+  columns: string[];
+  rows: Record<string, unknown>[];
+}
+
+const isPlainObject = (value: unknown): value is Record<string, unknown> => (
+  value !== null && typeof value === 'object' && !Array.isArray(value)
+);
+
+export const getDataTable = (value: unknown): DataTable | null => {
+  let rows = value;
+  if (isPlainObject(value)) {
+    const entries = Object.values(value);
+    if (entries.length !== 1) return null;
+    rows = entries[0];
+  }
+  if (!Array.isArray(rows) || rows.length === 0 || !rows.every(isPlainObject)) return null;
+
+  // Columns in order of first appearance
+  const columns: string[] = [];
+  rows.forEach(row => Object.keys(row).forEach(key => {
+    if (!columns.includes(key)) columns.push(key);
+  }));
+  return { columns, rows };
+};
+
+// Nested values go in a cell as JSON
+export const formatCellValue = (value: unknown): string => {
+  if (value === undefined || value === null) return '';
+  return typeof value === 'object' ? JSON.stringify(value) : String(value);
+};
+
+const escapeCsvValue = (value: string) => (
+  /[",\n\r]/.test(value) ? `"${value.replace(/"/g, '""')}"` : value
+);
+
+export const toCsv = ({ columns, rows }: DataTable): string => {
+  return [
+    columns.map(escapeCsvValue).join(','),
+    ...rows.map(row => columns.map(column => escapeCsvValue(formatCellValue(row[column]))).join(',')),
+  ].join('\r\n');
+};